@@ -0,0 +1,409 @@
+// src/api.test.ts
+// Integration checks for the guarded routes (admin auth, tenants, keys, ...) against a running server.
+// Needs MongoDB behind the server; every check creates its own tenants and players.
+//
+// Usage:
+//   npm run test:api <command>
+//   npm run test:api all          # every command below, in order
+//
+// Environment:
+//   SM_SERVER_BASE   server base URL (default http://localhost:7769)
+//   SM_ADMIN_KEY     a key from the server's ADMIN_API_KEYS
+//   SM_API_KEY       a key from the server's API_KEYS (legacy, unrestricted)
+
+import { createHash, createHmac, randomBytes } from 'node:crypto';
+
+const BASE = (process.env.SM_SERVER_BASE || 'http://localhost:7769').replace(/\/$/, '');
+const ADMIN_KEY = process.env.SM_ADMIN_KEY || '';
+const API_KEY = process.env.SM_API_KEY || '';
+
+type Reply = { status: number; headers: Headers; body: any };
+
+async function call(method: string, path: string, opts: { key?: string; body?: unknown; headers?: Record<string, string> } = {}): Promise<Reply> {
+  const res = await fetch(`${BASE}${path}`, {
+    method,
+    headers: {
+      ...(opts.body !== undefined && { 'Content-Type': 'application/json' }),
+      ...(opts.key && { 'X-API-Key': opts.key }),
+      ...opts.headers,
+    },
+    ...(opts.body !== undefined && { body: JSON.stringify(opts.body) }),
+  });
+  const text = await res.text();
+  let body: any = text;
+  try { body = JSON.parse(text); } catch { /* not JSON */ }
+  return { status: res.status, headers: res.headers, body };
+}
+
+let passed = 0;
+
+function expect(condition: boolean, message: string, reply?: Reply) {
+  if (!condition) {
+    throw new Error(`${message}${reply ? ` (got ${reply.status} ${JSON.stringify(reply.body)})` : ''}`);
+  }
+  passed++;
+  console.log(`  ✓ ${message}`);
+}
+
+function expectStatus(reply: Reply, status: number, message: string) {
+  expect(reply.status === status, `${message} → ${status}`, reply);
+}
+
+function expectError(reply: Reply, status: number, error: string, message: string) {
+  expect(reply.status === status && reply.body?.error === error, `${message} → ${status} ${error}`, reply);
+}
+
+const unique = (prefix: string) => `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+/** Create a tenant through the admin API; returns its id and first (plain) key */
+async function createTenant(body: Record<string, unknown> = {}): Promise<{ tenant_id: string; key: string; key_id: string }> {
+  const res = await call('POST', '/admin/tenants', {
+    key: ADMIN_KEY,
+    body: { studio: unique('studio'), game_ids: ['test_game'], ...body },
+  });
+  expectStatus(res, 201, 'POST /admin/tenants creates a tenant');
+  return { tenant_id: res.body.tenant.tenant_id, key: res.body.key, key_id: res.body.tenant.keys[0].key_id };
+}
+
+/** Provision players for a tenant through the admin API */
+async function provision(tenant: { tenant_id: string }, playerIds: string[]): Promise<Reply> {
+  return call('POST', `/admin/tenants/${tenant.tenant_id}/players`, { key: ADMIN_KEY, body: { player_ids: playerIds } });
+}
+
+/** A valid ServerInput for `test_game` */
+function runInput(playerId: string, runIndex: number, gameId = 'test_game') {
+  return {
+    schema_version: '1.0',
+    player_id: playerId,
+    session_id: unique('session'),
+    run_index: runIndex,
+    completed_at: new Date().toISOString(),
+    game_context: { game_id: gameId, genre_ids: ['platformer'], platform_ids: ['pc'] },
+    run_outcome: { result: 'win', path: 'combat' },
+    stats: {
+      time_s: 180, deaths: 1, retries: 0, distance_traveled: 420, jumps: 30, hint_offers: 1, hints_used: 0,
+      riddles_attempted: 2, riddles_correct: 1, combats_initiated: 3, combats_won: 2, collectibles_found: 4,
+    },
+    config_used: {
+      mode: 'fun',
+      knobs: { enemy_count: 5, enemy_speed: 1, puzzle_gate_ratio: 0.5, collectible_density: 0.5, hint_delay_ms: 8000, breadcrumb_brightness: 0.5 },
+      layout_seed: 'seed_1',
+    },
+  };
+}
+
+type Session = { session_token: string; signing_key: string };
+
+/** A request signed with a session, as a game client sends it; `sign` overrides single parts */
+async function signedCall(
+  session: Session,
+  method: string,
+  path: string,
+  opts: { body?: unknown; sign?: { timestamp?: string; nonce?: string; signature?: string } } = {},
+): Promise<Reply> {
+  const timestamp = opts.sign?.timestamp ?? String(Math.floor(Date.now() / 1000));
+  const nonce = opts.sign?.nonce ?? randomBytes(16).toString('hex');
+  const bodyHash = createHash('sha256').update(opts.body !== undefined ? JSON.stringify(opts.body) : '').digest('hex');
+  const signature = opts.sign?.signature ?? createHmac('sha256', session.signing_key)
+    .update([timestamp, nonce, method, path, bodyHash].join('\n'))
+    .digest('hex');
+  return call(method, path, {
+    ...(opts.body !== undefined && { body: opts.body }),
+    headers: { 'X-Session-Token': session.session_token, 'X-Timestamp': timestamp, 'X-Nonce': nonce, 'X-Signature': signature },
+  });
+}
+
+// ---------- Commands ----------
+
+/** /admin routes only take admin keys, however the path is cased */
+async function adminGuard() {
+  const tenant = await createTenant();
+  const paths = ['/admin/tenants', '/Admin/tenants', '/ADMIN/TENANTS', '/admin/Tenants/', '/aDmIn/usage'];
+
+  for (const path of paths) {
+    expectStatus(await call('GET', path), 401, `GET ${path} without a key`);
+    expectStatus(await call('GET', path, { key: tenant.key }), 403, `GET ${path} with a tenant key`);
+    if (API_KEY) expectStatus(await call('GET', path, { key: API_KEY }), 403, `GET ${path} with an API_KEYS key`);
+    expectStatus(await call('GET', path, { key: ADMIN_KEY }), 200, `GET ${path} with the admin key`);
+  }
+
+  const before = await call('GET', '/admin/tenants', { key: ADMIN_KEY });
+  const created = await call('POST', '/Admin/tenants', { key: tenant.key, body: { studio: unique('squatter'), game_ids: ['*'] } });
+  expectStatus(created, 403, 'POST /Admin/tenants with a tenant key');
+  const after = await call('GET', '/admin/tenants', { key: ADMIN_KEY });
+  expect(after.body.total === before.body.total, 'no tenant was created by the rejected request');
+
+  expectStatus(
+    await call('POST', `/ADMIN/tenants/${tenant.tenant_id}/keys/${tenant.key_id}/revoke`, { key: tenant.key }),
+    403,
+    'a tenant cannot revoke keys through a mixed-case admin path',
+  );
+  expectStatus(await call('GET', '/admin/no-such-route', { key: ADMIN_KEY }), 404, 'unknown admin route with the admin key');
+}
+
+/** Players belong to the tenant an admin provisioned them for; writes never claim them */
+async function ownership() {
+  const a = await createTenant({ permissions: { read: true, write: true } });
+  const b = await createTenant({ permissions: { read: true, write: true } });
+  const player = unique('player');
+
+  expectError(
+    await call('POST', '/sm/save', { key: a.key, body: { serverInput: runInput(player, 1) } }),
+    403, 'player_not_provisioned', 'saving a player nobody provisioned',
+  );
+  const batch = await call('POST', '/sm/save/batch', { key: b.key, body: { runs: [runInput(player, 1)] } });
+  expect(batch.body?.results?.[0]?.error === 'player_not_provisioned', 'a batch run for an unprovisioned player fails', batch);
+
+  const first = await provision(a, [player]);
+  expect(first.status === 200 && first.body.provisioned.includes(player), 'POST /admin/tenants/:id/players provisions the player', first);
+  const again = await provision(a, [player]);
+  expect(again.body.already_owned?.includes(player), 'provisioning it again reports already_owned', again);
+  const conflict = await provision(b, [player]);
+  expect(conflict.body.conflicts?.includes(player), "another tenant's provisioning reports a conflict", conflict);
+  expectStatus(await call('POST', `/admin/tenants/${a.tenant_id}/players`, { key: a.key, body: { player_ids: [unique('player')] } }), 403, 'a tenant key cannot provision players');
+
+  expectStatus(await call('POST', '/sm/save', { key: a.key, body: { serverInput: runInput(player, 1) } }), 200, 'the owning tenant saves a run');
+  expectError(
+    await call('POST', '/sm/save', { key: b.key, body: { serverInput: runInput(player, 2) } }),
+    403, 'player_not_owned', 'another tenant saves for the player',
+  );
+  expectError(await call('GET', `/sm/personas?player_id=${player}`, { key: b.key }), 403, 'player_not_owned', 'another tenant reads personas');
+  expectError(await call('GET', `/sm/personas/resolved?player_id=${player}`, { key: b.key }), 403, 'player_not_owned', 'another tenant reads the resolved persona');
+  expectError(await call('GET', `/players/${player}/export`, { key: b.key }), 403, 'player_not_owned', 'another tenant exports the player');
+
+  expectStatus(await call('DELETE', `/admin/tenants/${a.tenant_id}/players/${player}`, { key: ADMIN_KEY }), 200, 'releasing the player');
+  expectError(
+    await call('POST', '/sm/save', { key: a.key, body: { serverInput: runInput(player, 2) } }),
+    403, 'player_not_provisioned', 'saving after the release',
+  );
+  const hidden = await call('GET', `/sm/personas?player_id=${player}`, { key: a.key });
+  expect(hidden.status === 200 && hidden.body.total === 0, 'a released player reads as a new player', hidden);
+}
+
+/** Issue, rotate (old key works through the grace period) and revoke tenant keys; plain keys are only shown once */
+async function keys() {
+  const tenant = await createTenant();
+  const works = async (key: string) => (await call('GET', `/sm/personas?player_id=${unique('player')}`, { key })).status === 200;
+  expect(await works(tenant.key), 'the first key works');
+
+  const issued = await call('POST', `/admin/tenants/${tenant.tenant_id}/keys`, { key: ADMIN_KEY, body: { name: 'ci' } });
+  expectStatus(issued, 201, 'POST /admin/tenants/:id/keys issues a key');
+  expect(await works(issued.body.key), 'the issued key works');
+
+  const rotated = await call('POST', `/admin/tenants/${tenant.tenant_id}/keys/${tenant.key_id}/rotate`, { key: ADMIN_KEY, body: { grace_hours: 1 } });
+  expectStatus(rotated, 201, 'rotating the first key with a grace period');
+  expect(rotated.body.replaced.replaced_by === rotated.body.info.key_id && !!rotated.body.replaced.expires_at, 'the old key points at its replacement and expires', rotated);
+  expect(await works(tenant.key) && await works(rotated.body.key), 'old and new key both work during the grace period');
+
+  const listed = await call('GET', `/admin/tenants/${tenant.tenant_id}/keys`, { key: ADMIN_KEY });
+  expect(listed.body.keys?.length === 3, 'GET /admin/tenants/:id/keys lists every key', listed);
+  const text = JSON.stringify(listed.body);
+  expect(![tenant.key, issued.body.key, rotated.body.key].some(k => text.includes(k)), 'listings never contain a plain key');
+
+  const cutover = await call('POST', `/admin/tenants/${tenant.tenant_id}/keys/${issued.body.info.key_id}/rotate`, { key: ADMIN_KEY, body: { grace_hours: 0 } });
+  expectStatus(cutover, 201, 'rotating without a grace period');
+  expectError(await call('GET', `/sm/personas?player_id=${unique('player')}`, { key: issued.body.key }), 403, 'key_expired', 'the key rotated without grace');
+
+  expectStatus(await call('POST', `/admin/tenants/${tenant.tenant_id}/keys/${rotated.body.info.key_id}/revoke`, { key: ADMIN_KEY }), 200, 'revoking a key');
+  expectError(await call('GET', `/sm/personas?player_id=${unique('player')}`, { key: rotated.body.key }), 403, 'key_revoked', 'the revoked key');
+  expectError(
+    await call('POST', `/admin/tenants/${tenant.tenant_id}/keys/${rotated.body.info.key_id}/rotate`, { key: ADMIN_KEY, body: {} }),
+    409, 'key_revoked', 'rotating a revoked key',
+  );
+  expect(await works(tenant.key), "revoking the replacement leaves the old key's grace period alone");
+}
+
+/** Signed session requests: one player only, every nonce once, and rate limited per player */
+async function sessions() {
+  const tenant = await createTenant({ permissions: { read: true, write: true } });
+  const player = unique('player');
+  const other = unique('player');
+  await provision(tenant, [player, other]);
+
+  const issued = await call('POST', '/sm/sessions', { key: tenant.key, body: { player_id: player } });
+  if (issued.status === 503) {
+    console.log('  - skipped: the server has no SESSION_SECRET');
+    return;
+  }
+  expectStatus(issued, 201, 'POST /sm/sessions issues a session');
+  const session: Session = issued.body;
+  expectError(
+    await call('POST', '/sm/sessions', { key: tenant.key, body: { player_id: unique('player') } }),
+    403, 'player_not_provisioned', 'a session for an unprovisioned player',
+  );
+
+  const path = `/sm/personas?player_id=${player}`;
+  expectStatus(await signedCall(session, 'GET', path), 200, 'a signed request');
+  const nonce = randomBytes(16).toString('hex');
+  expectStatus(await signedCall(session, 'GET', path, { sign: { nonce } }), 200, 'a signed request with a fresh nonce');
+  expectError(await signedCall(session, 'GET', path, { sign: { nonce } }), 401, 'request_replayed', 'the same nonce again');
+  expectError(await signedCall(session, 'GET', path, { sign: { signature: '00'.repeat(32) } }), 401, 'signature_invalid', 'a wrong signature');
+  expectError(
+    await signedCall(session, 'GET', path, { sign: { timestamp: String(Math.floor(Date.now() / 1000) - 3600) } }),
+    401, 'signature_expired', 'a timestamp an hour old',
+  );
+  expectError(
+    await call('GET', path, { headers: { 'X-Session-Token': session.session_token } }),
+    401, 'signature_required', 'a session token without a signature',
+  );
+  expectError(
+    await signedCall({ ...session, session_token: `${session.session_token.slice(0, -2)}xx` }, 'GET', path),
+    401, 'session_invalid', 'a tampered session token',
+  );
+
+  expectError(await signedCall(session, 'GET', `/sm/personas?player_id=${other}`), 403, 'player_not_owned', "another of the studio's players");
+  expectError(
+    await signedCall(session, 'POST', '/sm/save', { body: { serverInput: runInput(other, 1) } }),
+    403, 'player_not_owned', 'saving a run for another player',
+  );
+  expectStatus(await signedCall(session, 'POST', '/sm/sessions', { body: { player_id: player } }), 403, 'a session issuing sessions');
+  expectStatus(await signedCall(session, 'GET', '/admin/tenants'), 401, 'a session on an admin route');
+
+  // Session traffic counts against its player's bucket and then the key's, so all of a studio's
+  // clients together stay within the studio's limits
+  const limits = await call('PUT', `/admin/tenants/${tenant.tenant_id}/limits`, {
+    key: ADMIN_KEY,
+    body: { routes: { personas: { rate_per_minute: 1, burst: 2 } } },
+  });
+  expectStatus(limits, 200, 'lowering the personas limit');
+  const fresh: Session = (await call('POST', '/sm/sessions', { key: tenant.key, body: { player_id: player } })).body;
+  await signedCall(fresh, 'GET', path);
+  await signedCall(fresh, 'GET', path);
+  const limited = await signedCall(fresh, 'GET', path);
+  expect(limited.status === 429 && !!limited.headers.get('retry-after'), 'the player is rate limited after the burst', limited);
+  expectStatus(await call('GET', path, { key: tenant.key }), 429, "the studio's key shares its bucket with its sessions");
+  const otherSession: Session = (await call('POST', '/sm/sessions', { key: tenant.key, body: { player_id: other } })).body;
+  expectStatus(await signedCall(otherSession, 'GET', `/sm/personas?player_id=${other}`), 429, "another player is held to the studio's limit");
+}
+
+/** Per-key, per-route token buckets and daily quotas, overridden per tenant */
+async function rateLimit() {
+  const tenant = await createTenant();
+  expectError(
+    await call('PUT', `/admin/tenants/${tenant.tenant_id}/limits`, { key: ADMIN_KEY, body: { routes: { no_such_route: { burst: 1 } } } }),
+    400, 'invalid_payload', 'limits for an unknown route',
+  );
+  const limits = await call('PUT', `/admin/tenants/${tenant.tenant_id}/limits`, {
+    key: ADMIN_KEY,
+    body: { routes: { personas: { rate_per_minute: 1, burst: 2 }, history: { daily_quota: 1 } } },
+  });
+  expectStatus(limits, 200, 'PUT /admin/tenants/:id/limits');
+
+  const personas = `/sm/personas?player_id=${unique('player')}`;
+  const first = await call('GET', personas, { key: tenant.key });
+  expect(first.status === 200 && first.headers.get('x-ratelimit-remaining') === '1', 'the first request leaves one token', first);
+  expectStatus(await call('GET', personas, { key: tenant.key }), 200, 'the second request (burst 2)');
+  const limited = await call('GET', personas, { key: tenant.key });
+  expectError(limited, 429, 'rate_limited', 'the third request');
+  expect(Number(limited.headers.get('retry-after')) >= 1, 'a rate-limited response carries Retry-After');
+
+  const history = `/sm/personas/${unique('player')}/history`;
+  expectStatus(await call('GET', history, { key: tenant.key }), 200, 'the first history request (quota 1)');
+  const overQuota = await call('GET', history, { key: tenant.key });
+  expectError(overQuota, 429, 'quota_exceeded', 'the second history request');
+  expect(Number(overQuota.headers.get('retry-after')) > 0, 'a quota response carries Retry-After (next UTC midnight)');
+
+  expectStatus(await call('GET', `/sm/personas/resolved?player_id=${unique('player')}`, { key: tenant.key }), 200, 'other routes keep their own limits');
+  const other = await createTenant();
+  expectStatus(await call('GET', personas, { key: other.key }), 200, "another tenant's key keeps its own bucket");
+
+  const usage = await call('GET', `/admin/usage?tenant_id=${tenant.tenant_id}`, { key: ADMIN_KEY });
+  const row = usage.body.usage?.find((u: any) => u.route === 'personas');
+  expect(row?.day_rejected >= 1 && row?.limit?.burst === 2, 'GET /admin/usage shows the rejection and the limit that applies', usage);
+}
+
+/** Exports only hold what the key may read (its games and scopes); erasure removes the player everywhere */
+async function exportErase() {
+  const broad = await createTenant({ game_ids: ['test_game', 'other_game'], permissions: { read: true, write: true } });
+  const narrow = await createTenant({ game_ids: ['test_game'], scopes: ['global', 'game'], permissions: { read: true, write: true } });
+  const player = unique('player');
+
+  await provision(broad, [player]);
+  expectStatus(await call('POST', '/sm/save', { key: broad.key, body: { serverInput: runInput(player, 1) } }), 200, 'saving a test_game run');
+  expectStatus(await call('POST', '/sm/save', { key: broad.key, body: { serverInput: runInput(player, 2, 'other_game') } }), 200, 'saving an other_game run');
+  const full = await call('GET', `/players/${player}/export`, { key: broad.key });
+  expect(
+    full.status === 200 && full.body.runs.length === 2 && full.body.history.some((h: any) => h.persona_scope === 'genre'),
+    'an unrestricted export has both games and every scope', full,
+  );
+
+  // Hand the player to the restricted studio: the data stays, the owner changes
+  expectStatus(await call('DELETE', `/admin/tenants/${broad.tenant_id}/players/${player}`, { key: ADMIN_KEY }), 200, 'releasing the player');
+  await provision(narrow, [player]);
+  const bundle = await call('GET', `/players/${player}/export`, { key: narrow.key });
+  expectStatus(bundle, 200, 'the restricted tenant exports the player');
+  expect(bundle.body.runs.length === 1 && bundle.body.runs.every((r: any) => r.game_id === 'test_game'), 'the export only has runs of the key\'s games', bundle);
+  expect(
+    bundle.body.history.length > 0 && bundle.body.history.every((h: any) =>
+      h.persona_scope === 'global' || (h.persona_scope === 'game' && h.scope_id === 'test_game')),
+    'history only has points of the key\'s scopes and games', bundle,
+  );
+  expect(
+    bundle.body.personas.every((p: any) => {
+      const scope = p.metadata?.persona_scope ?? 'global';
+      return scope === 'global' || (scope === 'game' && p.metadata?.game_id === 'test_game');
+    }),
+    'personas only cover the key\'s scopes and games', bundle,
+  );
+
+  const erased = await call('DELETE', `/players/${player}`, { key: narrow.key, body: { reason: 'api.test erasure' } });
+  expect(
+    erased.status === 200 && erased.body.deleted.runs === 2 && typeof erased.body.deleted.debug_logs === 'number',
+    'DELETE /players/:id erases every run, whatever the key may read', erased,
+  );
+  expectError(await call('GET', `/players/${player}/export`, { key: narrow.key }), 404, 'player_not_found', 'exporting an erased player');
+  expectError(
+    await call('POST', '/sm/save', { key: narrow.key, body: { serverInput: runInput(player, 3) } }),
+    403, 'player_not_provisioned', 'saving an erased player',
+  );
+}
+
+const COMMANDS: Record<string, () => Promise<void>> = {
+  'admin-guard': adminGuard,
+  ownership,
+  keys,
+  sessions,
+  'rate-limit': rateLimit,
+  export: exportErase,
+};
+
+function help() {
+  console.log(`
+API integration checks (server routes)
+
+Commands:
+${Object.keys(COMMANDS).map(c => `  ${c}`).join('\n')}
+  all                         Run every command
+
+Environment:
+  SM_SERVER_BASE              default ${BASE}
+  SM_ADMIN_KEY                required (ADMIN_API_KEYS)
+  SM_API_KEY                  optional (API_KEYS)
+`);
+}
+
+async function main() {
+  const cmd = process.argv[2];
+  const selected = cmd === 'all' ? Object.keys(COMMANDS) : cmd && COMMANDS[cmd] ? [cmd] : [];
+  if (selected.length === 0) return help();
+  if (!ADMIN_KEY) {
+    console.error('SM_ADMIN_KEY is required');
+    process.exit(1);
+  }
+
+  for (const name of selected) {
+    console.log(`\n[${name}]`);
+    try {
+      await COMMANDS[name]!();
+    } catch (e: any) {
+      console.error(`  ✗ ${e.message}`);
+      process.exit(1);
+    }
+  }
+  console.log(`\n${passed} check(s) passed`);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
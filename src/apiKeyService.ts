@@ -0,0 +1,189 @@
+// src/apiKeyService.ts
+import { createHash } from 'node:crypto';
+import mongoose from 'mongoose';
+import { TenantModel } from './models/Tenant.model.ts';
+import { ENV } from './config.ts';
+import { generateApiKey } from './utils/generateApiKey.ts';
+import { logger } from './logger.ts';
+
+/** A key as stored on a tenant record */
+export type KeyEntry = {
+  key_id: string;
+  key_hash: string;
+  key_prefix: string;
+  name?: string | null;
+  created_at: Date;
+  last_used_at?: Date | null;
+  expires_at?: Date | null;
+  revoked_at?: Date | null;
+  replaced_by?: string | null;
+};
+
+export type KeyStatus = 'active' | 'expired' | 'revoked';
+
+/** A tenant key as listed by admin routes - never includes the key or its hash */
+export type KeyInfo = {
+  key_id: string;
+  key_prefix: string;
+  name: string | null;
+  status: KeyStatus;
+  created_at: Date;
+  last_used_at: Date | null;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  replaced_by: string | null;
+};
+
+/** Rotating, or setting the expiry of, a revoked key */
+export class KeyRevokedError extends Error {
+  constructor(keyId: string) {
+    super(`Key ${keyId} is revoked`);
+    this.name = 'KeyRevokedError';
+  }
+}
+
+/** SHA-256 of a key, as stored on tenant records */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/** First characters of a key, safe to log and list */
+export const keyPrefix = (key: string) => key.substring(0, 12);
+
+export function keyStatus(entry: Pick<KeyEntry, 'expires_at' | 'revoked_at'>, now = new Date()): KeyStatus {
+  if (entry.revoked_at) return 'revoked';
+  if (entry.expires_at && entry.expires_at <= now) return 'expired';
+  return 'active';
+}
+
+export function keyInfo(entry: KeyEntry): KeyInfo {
+  return {
+    key_id: entry.key_id,
+    key_prefix: entry.key_prefix,
+    name: entry.name ?? null,
+    status: keyStatus(entry),
+    created_at: entry.created_at,
+    last_used_at: entry.last_used_at ?? null,
+    expires_at: entry.expires_at ?? null,
+    revoked_at: entry.revoked_at ?? null,
+    replaced_by: entry.replaced_by ?? null,
+  };
+}
+
+export type NewKey = { name?: string; expires_at?: Date };
+
+/** A fresh key and the entry to store for it */
+export function newKeyEntry(opts: NewKey = {}) {
+  const key = generateApiKey();
+  return {
+    key,
+    entry: {
+      key_hash: hashApiKey(key),
+      key_prefix: keyPrefix(key),
+      ...(opts.name && { name: opts.name }),
+      ...(opts.expires_at && { expires_at: opts.expires_at }),
+    },
+  };
+}
+
+/**
+ * Record that a key was used. Throttled in the query itself, so a busy key costs at most one
+ * write per KEY_TOUCH_INTERVAL_MS; failures are only logged.
+ */
+export function touchKey(tenantId: unknown, keyHash: string) {
+  const now = new Date();
+  TenantModel.updateOne(
+    {
+      _id: tenantId,
+      keys: {
+        $elemMatch: {
+          key_hash: keyHash,
+          $or: [
+            { last_used_at: { $exists: false } },
+            { last_used_at: { $lt: new Date(now.getTime() - ENV.KEY_TOUCH_INTERVAL_MS) } },
+          ],
+        },
+      },
+    },
+    { $set: { 'keys.$.last_used_at': now } },
+  ).catch((e: any) => logger.warn('API key last_used_at update failed', { error: e.message }));
+}
+
+async function findTenant(tenantId: string) {
+  if (!mongoose.isValidObjectId(tenantId)) return null;
+  return TenantModel.findById(tenantId).lean();
+}
+
+async function findKey(tenantId: string, keyId: string): Promise<KeyEntry | null> {
+  const tenant = await findTenant(tenantId);
+  return tenant?.keys.find(k => k.key_id === keyId) ?? null;
+}
+
+/** Keys of a tenant, or null for unknown tenants */
+export async function listKeys(tenantId: string): Promise<KeyInfo[] | null> {
+  const tenant = await findTenant(tenantId);
+  return tenant ? tenant.keys.map(keyInfo) : null;
+}
+
+/** Issue another key for a tenant; the plain key is only ever returned here. Null for unknown tenants */
+export async function issueKey(tenantId: string, opts: NewKey = {}): Promise<{ key: string; info: KeyInfo } | null> {
+  if (!mongoose.isValidObjectId(tenantId)) return null;
+  const { key, entry } = newKeyEntry(opts);
+  const tenant = await TenantModel.findByIdAndUpdate(tenantId, { $push: { keys: entry } }, { new: true }).lean();
+  const issued = tenant?.keys.find(k => k.key_hash === entry.key_hash);
+  return issued ? { key, info: keyInfo(issued) } : null;
+}
+
+/**
+ * Replace a key: issue a new one and let the old one keep working for `graceHours`
+ * (never longer than it already would). Null for unknown tenants or keys.
+ */
+export async function rotateKey(
+  tenantId: string,
+  keyId: string,
+  opts: NewKey & { graceHours?: number } = {},
+): Promise<{ key: string; info: KeyInfo; replaced: KeyInfo } | null> {
+  const old = await findKey(tenantId, keyId);
+  if (!old) return null;
+  if (old.revoked_at) throw new KeyRevokedError(keyId);
+
+  const name = opts.name ?? old.name;
+  const issued = await issueKey(tenantId, { ...(name && { name }), ...(opts.expires_at && { expires_at: opts.expires_at }) });
+  if (!issued) return null;
+
+  const graceEnd = new Date(Date.now() + (opts.graceHours ?? ENV.KEY_ROTATION_GRACE_HOURS) * 3600_000);
+  const expiresAt = old.expires_at && old.expires_at < graceEnd ? old.expires_at : graceEnd;
+  const tenant = await TenantModel.findOneAndUpdate(
+    { _id: tenantId, 'keys.key_id': keyId },
+    { $set: { 'keys.$.expires_at': expiresAt, 'keys.$.replaced_by': issued.info.key_id } },
+    { new: true },
+  ).lean();
+  const replaced = tenant?.keys.find(k => k.key_id === keyId);
+  return replaced ? { ...issued, replaced: keyInfo(replaced) } : null;
+}
+
+/** Revoke a key immediately (idempotent - keeps the first revocation time). Null for unknown tenants or keys */
+export async function revokeKey(tenantId: string, keyId: string): Promise<KeyInfo | null> {
+  if (!mongoose.isValidObjectId(tenantId)) return null;
+  await TenantModel.updateOne(
+    { _id: tenantId, keys: { $elemMatch: { key_id: keyId, revoked_at: { $exists: false } } } },
+    { $set: { 'keys.$.revoked_at': new Date() } },
+  );
+  const entry = await findKey(tenantId, keyId);
+  return entry ? keyInfo(entry) : null;
+}
+
+/** Set (or with null, clear) a key's expiry. Null for unknown tenants or keys */
+export async function setKeyExpiry(tenantId: string, keyId: string, expiresAt: Date | null): Promise<KeyInfo | null> {
+  const entry = await findKey(tenantId, keyId);
+  if (!entry) return null;
+  if (entry.revoked_at) throw new KeyRevokedError(keyId);
+
+  const tenant = await TenantModel.findOneAndUpdate(
+    { _id: tenantId, 'keys.key_id': keyId },
+    expiresAt ? { $set: { 'keys.$.expires_at': expiresAt } } : { $unset: { 'keys.$.expires_at': 1 } },
+    { new: true },
+  ).lean();
+  const updated = tenant?.keys.find(k => k.key_id === keyId);
+  return updated ? keyInfo(updated) : null;
+}
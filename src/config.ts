@@ -1,8 +1,8 @@
 import 'dotenv/config';
 
 // Parse API keys from env (comma-separated string)
-const parseApiKeys = (): string[] => {
-  const keysStr = process.env.API_KEYS || '';
+const parseApiKeys = (name = 'API_KEYS'): string[] => {
+  const keysStr = process.env[name] || '';
   if (!keysStr.trim()) {
     return [];
   }
@@ -13,6 +13,42 @@ const parseApiKeys = (): string[] => {
     .filter(k => k.length > 0);
 };
 
+// Persona storage backend: supermemory (default), mongo, or memory (offline/dev)
+const PERSONA_STORES = ['supermemory', 'mongo', 'memory'] as const;
+type PersonaStoreKind = typeof PERSONA_STORES[number];
+
+const parsePersonaStore = (): PersonaStoreKind => {
+  const value = (process.env.PERSONA_STORE || 'supermemory').trim().toLowerCase();
+  if (!(PERSONA_STORES as readonly string[]).includes(value)) {
+    throw new Error(`PERSONA_STORE must be one of ${PERSONA_STORES.join(', ')} (got "${value}")`);
+  }
+  return value as PersonaStoreKind;
+};
+
+// /sm/save ingestion: sync (blend in the request) or async (queue the run, 202 + job id)
+const INGEST_MODES = ['sync', 'async'] as const;
+type IngestMode = typeof INGEST_MODES[number];
+
+const parseIngestMode = (): IngestMode => {
+  const value = (process.env.INGEST_MODE || 'sync').trim().toLowerCase();
+  if (!(INGEST_MODES as readonly string[]).includes(value)) {
+    throw new Error(`INGEST_MODE must be one of ${INGEST_MODES.join(', ')} (got "${value}")`);
+  }
+  return value as IngestMode;
+};
+
+// Where rate-limit and quota counters live: memory (per process) or mongo (shared)
+const USAGE_STORES = ['memory', 'mongo'] as const;
+type UsageStoreKind = typeof USAGE_STORES[number];
+
+const parseUsageStore = (): UsageStoreKind => {
+  const value = (process.env.USAGE_STORE || 'memory').trim().toLowerCase();
+  if (!(USAGE_STORES as readonly string[]).includes(value)) {
+    throw new Error(`USAGE_STORE must be one of ${USAGE_STORES.join(', ')} (got "${value}")`);
+  }
+  return value as UsageStoreKind;
+};
+
 export const ENV = {
   PORT: Number(process.env.PORT ?? 7769),
   MONGO_URI: process.env.MONGO_URI || 'mongodb://localhost:27017/echorun',
@@ -20,4 +56,30 @@ export const ENV = {
   SUPERMEMORY_API_KEY: process.env.SUPERMEMORY_API_KEY || '',
   GAME_ID: process.env.GAME_ID || 'echorun',
   API_KEYS: parseApiKeys(),
+  ADMIN_API_KEYS: parseApiKeys('ADMIN_API_KEYS'), // keys for /admin routes (rebuilds etc.)
+  PERSONA_STORE: parsePersonaStore(),
+  TRAIT_MODEL_DIR: process.env.TRAIT_MODEL_DIR || 'trait-models',
+  // Per-player persona read cache lifetime; 0 disables it
+  PERSONA_CACHE_TTL_MS: Number(process.env.PERSONA_CACHE_TTL_MS ?? 5000),
+  INGEST_MODE: parseIngestMode(),
+  INGEST_MAX_ATTEMPTS: Number(process.env.INGEST_MAX_ATTEMPTS ?? 8),
+  INGEST_BACKOFF_MS: Number(process.env.INGEST_BACKOFF_MS ?? 2000),          // first retry delay, doubled per attempt
+  INGEST_BACKOFF_MAX_MS: Number(process.env.INGEST_BACKOFF_MAX_MS ?? 600000), // cap on the retry delay
+  INGEST_POLL_MS: Number(process.env.INGEST_POLL_MS ?? 1000),
+  PLAYER_LOCK_TTL_MS: Number(process.env.PLAYER_LOCK_TTL_MS ?? 15000),  // write lease, renewed while a save runs
+  PLAYER_LOCK_WAIT_MS: Number(process.env.PLAYER_LOCK_WAIT_MS ?? 20000), // how long a save waits for the lease (always longer than the TTL)
+  KEY_ROTATION_GRACE_HOURS: Number(process.env.KEY_ROTATION_GRACE_HOURS ?? 24), // old key keeps working this long after a rotation
+  KEY_TOUCH_INTERVAL_MS: Number(process.env.KEY_TOUCH_INTERVAL_MS ?? 60000),     // last_used_at write throttle per key
+  // Default per-key, per-route limits (tenants can override them); 0 turns a limit off
+  RATE_LIMIT_PER_MINUTE: Number(process.env.RATE_LIMIT_PER_MINUTE ?? 120),
+  RATE_LIMIT_BURST: Number(process.env.RATE_LIMIT_BURST ?? 30),
+  DAILY_QUOTA: Number(process.env.DAILY_QUOTA ?? 0),
+  USAGE_STORE: parseUsageStore(),
+  // Signed session requests: sessions are disabled while SESSION_SECRET is empty
+  SESSION_SECRET: process.env.SESSION_SECRET || '',
+  SESSION_TTL_S: Number(process.env.SESSION_TTL_S ?? 900),           // default session lifetime (capped at SESSION_MAX_TTL_S)
+  SESSION_MAX_TTL_S: Number(process.env.SESSION_MAX_TTL_S ?? 3600),  // longest lifetime a caller may ask for
+  SIGNATURE_SKEW_S: Number(process.env.SIGNATURE_SKEW_S ?? 300),     // accepted clock difference for X-Timestamp
+  // Write request/response bodies to debug/api_*.json (credentials redacted); off keeps only method, path and status
+  DEBUG_API_BODIES: process.env.DEBUG_API_BODIES === 'true',
 };
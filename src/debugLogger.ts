@@ -1,7 +1,9 @@
 // src/debugLogger.ts
 import { mkdirSync, writeFileSync } from 'fs';
+import { readdir, readFile, unlink } from 'fs/promises';
 import { join } from 'path';
 import { logger } from './logger.ts';
+import { ENV } from './config.ts';
 
 const DEBUG_DIR = 'debug';
 
@@ -24,7 +26,27 @@ interface DebugLogEntry {
   ip?: string | undefined;
 }
 
+// Fields holding plain credentials (issued API keys, session tokens and signing keys); never written, whatever route they came from
+const SECRET_FIELDS = new Set(['key', 'session_token', 'signing_key']);
+
+/** Copy of a body with every string credential field replaced, at any depth */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => (
+      [k, SECRET_FIELDS.has(k) && typeof v === 'string' ? '[redacted]' : redactSecrets(v)]
+    )));
+  }
+  return value;
+}
+
 export function logApiCall(entry: DebugLogEntry) {
+  // Bodies hold player data and issued keys: only written when DEBUG_API_BODIES is on, and redacted then
+  const { requestBody, responseBody, ...rest } = entry;
+  const written = ENV.DEBUG_API_BODIES
+    ? { ...rest, requestBody: redactSecrets(requestBody), responseBody: redactSecrets(responseBody) }
+    : rest;
+
   try {
     // Create filename with timestamp to make each file unique
     // Format: api_YYYY-MM-DDTHH-MM-SS-SSS.json
@@ -32,9 +54,58 @@ export function logApiCall(entry: DebugLogEntry) {
     const filename = join(DEBUG_DIR, `api_${timestamp}.json`);
     
     // Write as formatted JSON (not JSONL)
-    writeFileSync(filename, JSON.stringify(entry, null, 2), 'utf8');
+    writeFileSync(filename, JSON.stringify(written, null, 2), 'utf8');
   } catch (error) {
     logger.error('Failed to write debug log', { error });
   }
 }
 
+
+/** Whether a value holds the string `id` anywhere (query values, body fields, nested arrays) */
+function mentions(value: unknown, id: string): boolean {
+  if (typeof value === 'string') return value === id;
+  if (Array.isArray(value)) return value.some(v => mentions(v, id));
+  if (value && typeof value === 'object') return Object.values(value).some(v => mentions(v, id));
+  return false;
+}
+
+function pathMentions(path: unknown, id: string): boolean {
+  if (typeof path !== 'string') return false;
+  return path.split('/').some(segment => {
+    try {
+      return decodeURIComponent(segment) === id;
+    } catch {
+      return segment === id;
+    }
+  });
+}
+
+/**
+ * Remove every debug log naming a player - in its path, query or bodies - for erasure.
+ * Returns how many files were removed; unreadable files are skipped and logged.
+ */
+export async function purgePlayerLogs(playerId: string): Promise<number> {
+  let files: string[];
+  try {
+    files = (await readdir(DEBUG_DIR)).filter(f => f.startsWith('api_') && f.endsWith('.json'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return 0;
+    throw error;
+  }
+
+  let purged = 0;
+  for (const file of files) {
+    const filename = join(DEBUG_DIR, file);
+    try {
+      const entry = JSON.parse(await readFile(filename, 'utf8'));
+      if (!pathMentions(entry.path, playerId) && !mentions(entry.query, playerId)
+        && !mentions(entry.requestBody, playerId) && !mentions(entry.responseBody, playerId)) continue;
+      await unlink(filename);
+      purged++;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') continue;
+      logger.warn('Failed to purge debug log', { file, error: error.message });
+    }
+  }
+  return purged;
+}
@@ -0,0 +1,87 @@
+// src/historyService.ts
+import { PersonaHistoryModel } from './models/PersonaHistory.model.ts';
+import type { ServerInput } from './types.ts';
+import type { ScopeKey, ScopeSnapshot } from './memory/PersonaStore.ts';
+
+/** game_id / genre_id / platform_id of a scope key, null for global */
+export function scopeId(key: ScopeKey): string | null {
+  if (key.scope === 'game') return key.game_id;
+  if (key.scope === 'genre') return key.genre_id;
+  if (key.scope === 'platform') return key.platform_id;
+  return null;
+}
+
+/**
+ * Record the traits each scope had after this run.
+ * Upserts on the run key, so re-applying a run (retries, rebuilds) never duplicates points.
+ */
+export async function recordHistory(p: ServerInput, snapshots: ScopeSnapshot[]) {
+  await recordHistoryBatch([{ serverInput: p, snapshots }]);
+}
+
+/** recordHistory for several runs in one bulk write (replays rewrite every later point) */
+export async function recordHistoryBatch(entries: Array<{ serverInput: ServerInput; snapshots: ScopeSnapshot[] }>) {
+  const ops = entries.flatMap(({ serverInput: p, snapshots }) => snapshots.map(({ key, traits, confidence }) => ({
+    updateOne: {
+      filter: {
+        player_id: p.player_id,
+        persona_scope: key.scope,
+        scope_id: scopeId(key),
+        session_id: p.session_id,
+        run_index: p.run_index,
+      },
+      update: {
+        $set: {
+          completed_at: new Date(p.completed_at),
+          game_id: p.game_context?.game_id,
+          run_outcome: p.run_outcome,
+          traits,
+          confidence,
+        },
+      },
+      upsert: true,
+    },
+  })));
+  if (ops.length === 0) return;
+  await PersonaHistoryModel.bulkWrite(ops);
+}
+
+/**
+ * Trait time series for one scope, oldest first.
+ * With `limit`, returns the most recent `limit` points in the window.
+ */
+export async function fetchHistory(params: {
+  player_id: string;
+  key: ScopeKey;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}) {
+  const { player_id, key, from, to, limit } = params;
+  const filter: Record<string, any> = {
+    player_id,
+    persona_scope: key.scope,
+    scope_id: scopeId(key),
+  };
+  if (from || to) {
+    filter.completed_at = {
+      ...(from && { $gte: from }),
+      ...(to && { $lte: to }),
+    };
+  }
+
+  const docs = await PersonaHistoryModel.find(filter)
+    .sort({ completed_at: -1, run_index: -1 })
+    .limit(limit)
+    .lean();
+
+  return docs.reverse().map(d => ({
+    session_id: d.session_id,
+    run_index: d.run_index,
+    completed_at: d.completed_at.toISOString(),
+    game_id: d.game_id,
+    run_outcome: d.run_outcome,
+    traits: d.traits,
+    ...(d.confidence && { confidence: d.confidence }),
+  }));
+}
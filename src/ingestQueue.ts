@@ -0,0 +1,199 @@
+// src/ingestQueue.ts
+import mongoose from 'mongoose';
+import { IngestJobModel } from './models/IngestJob.model.ts';
+import type { IngestJobDocument } from './models/IngestJob.model.ts';
+import { DeadLetterModel } from './models/DeadLetter.model.ts';
+import { ENV } from './config.ts';
+import type { ServerInput } from './types.ts';
+
+// A 'processing' job locked longer than this belongs to a crashed worker and is requeued
+const JOB_LOCK_MS = 5 * 60 * 1000;
+// Due jobs fetched per page while looking for a claimable one
+const CLAIM_SCAN = 50;
+// Failure entries kept on a job
+const MAX_FAILURES_KEPT = 20;
+
+/**
+ * Queue a claimed run for the ingest worker. One job per run: enqueueing the same run again
+ * returns the existing job, and revives it if it was dead-lettered or cancelled.
+ */
+export async function enqueueRun(runId: unknown, p: ServerInput): Promise<IngestJobDocument> {
+  const job = await IngestJobModel.findOneAndUpdate(
+    { run_id: runId },
+    {
+      $setOnInsert: {
+        run_id: runId,
+        player_id: p.player_id,
+        session_id: p.session_id,
+        run_index: p.run_index,
+        completed_at: new Date(p.completed_at),
+        payload: p,
+        status: 'queued',
+        attempts: 0,
+        next_attempt_at: new Date(),
+      },
+    },
+    { upsert: true, new: true },
+  );
+
+  if (job.status !== 'dead' && job.status !== 'cancelled') return job;
+  const revived = await IngestJobModel.findOneAndUpdate(
+    { _id: job._id, status: job.status },
+    { $set: { status: 'queued', attempts: 0, next_attempt_at: new Date() } },
+    { new: true },
+  );
+  return revived ?? job;
+}
+
+/**
+ * Withdraw a run's job while it is still waiting, so the run can be saved without the queue.
+ * False when a worker is processing it right now.
+ */
+export async function cancelQueuedJob(runId: unknown): Promise<boolean> {
+  const res = await IngestJobModel.updateOne({ run_id: runId, status: 'queued' }, { $set: { status: 'cancelled' } });
+  if (res.modifiedCount === 1) return true;
+  return !await IngestJobModel.exists({ run_id: runId, status: 'processing' });
+}
+
+/** Job for a run, if it was ever queued */
+export async function findJobForRun(runId: unknown) {
+  return IngestJobModel.findOne({ run_id: runId });
+}
+
+/** Job by id, or null for unknown / malformed ids */
+export async function getJob(jobId: string) {
+  if (!mongoose.isValidObjectId(jobId)) return null;
+  return IngestJobModel.findById(jobId).lean();
+}
+
+/**
+ * Claim the oldest due job whose player has no earlier pending run, so each player's runs
+ * are applied in completed_at / run_index order - a job waiting on backoff holds back the
+ * player's later jobs, but never other players'. Only a player's oldest due job can be
+ * claimable, so once it has been looked at the player is left out of the next page: a long
+ * backlog behind one blocked job is skipped in one query instead of filling every page.
+ */
+export async function claimNextJob(workerId: string): Promise<IngestJobDocument | null> {
+  const now = new Date();
+  const seen = new Set<string>();
+
+  for (;;) {
+    const candidates = await IngestJobModel.find({
+      status: 'queued',
+      next_attempt_at: { $lte: now },
+      ...(seen.size > 0 && { player_id: { $nin: [...seen] } }),
+    })
+      .sort({ completed_at: 1, run_index: 1 })
+      .limit(CLAIM_SCAN)
+      .lean();
+    if (candidates.length === 0) return null;
+
+    for (const c of candidates) {
+      if (seen.has(c.player_id)) continue;
+      seen.add(c.player_id);
+
+      const earlier = await IngestJobModel.exists({
+        _id: { $ne: c._id },
+        player_id: c.player_id,
+        status: { $in: ['queued', 'processing'] },
+        $or: [
+          { completed_at: { $lt: c.completed_at } },
+          { completed_at: c.completed_at, run_index: { $lt: c.run_index } },
+        ],
+      });
+      if (earlier) continue;
+
+      const claimed = await IngestJobModel.findOneAndUpdate(
+        { _id: c._id, status: 'queued' },
+        { $set: { status: 'processing', locked_at: now, locked_by: workerId }, $inc: { attempts: 1 } },
+        { new: true },
+      );
+      // Lost to another worker: the player's later jobs now wait behind it
+      if (claimed) return claimed;
+    }
+  }
+}
+
+/** Record the save response on a finished job */
+export async function completeJob(job: IngestJobDocument, result: unknown) {
+  await IngestJobModel.updateOne(
+    { _id: job._id },
+    { $set: { status: 'succeeded', result }, $unset: { locked_at: 1, locked_by: 1 } },
+  );
+}
+
+/** Delete a job whose run was withdrawn: its payload is player data an erasure already removed */
+export async function dropJob(job: IngestJobDocument) {
+  await IngestJobModel.deleteOne({ _id: job._id });
+}
+
+/** Delay before the next attempt: INGEST_BACKOFF_MS doubled per attempt, capped */
+export function backoffMs(attempts: number): number {
+  return Math.min(ENV.INGEST_BACKOFF_MAX_MS, ENV.INGEST_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Schedule a retry with exponential backoff, or move the job to the dead-letter collection
+ * once INGEST_MAX_ATTEMPTS is reached. Returns true when the job was dead-lettered.
+ */
+export async function failJob(job: IngestJobDocument, error: string): Promise<boolean> {
+  const failure = { at: new Date(), error };
+  const failures = [...(job.failures ?? []), failure].slice(-MAX_FAILURES_KEPT);
+
+  if (job.attempts < ENV.INGEST_MAX_ATTEMPTS) {
+    await IngestJobModel.updateOne({ _id: job._id }, {
+      $set: {
+        status: 'queued',
+        last_error: error,
+        failures,
+        next_attempt_at: new Date(Date.now() + backoffMs(job.attempts)),
+      },
+      $unset: { locked_at: 1, locked_by: 1 },
+    });
+    return false;
+  }
+
+  await DeadLetterModel.create({
+    job_id: job._id,
+    run_id: job.run_id,
+    player_id: job.player_id,
+    session_id: job.session_id,
+    run_index: job.run_index,
+    attempts: job.attempts,
+    last_error: error,
+    failures,
+    payload: job.payload,
+  });
+  await IngestJobModel.updateOne(
+    { _id: job._id },
+    { $set: { status: 'dead', last_error: error, failures }, $unset: { locked_at: 1, locked_by: 1 } },
+  );
+  return true;
+}
+
+/** Put jobs from crashed workers back in the queue; returns how many were requeued */
+export async function requeueStaleJobs(): Promise<number> {
+  const res = await IngestJobModel.updateMany(
+    { status: 'processing', locked_at: { $lt: new Date(Date.now() - JOB_LOCK_MS) } },
+    { $set: { status: 'queued', next_attempt_at: new Date() }, $unset: { locked_at: 1, locked_by: 1 } },
+  );
+  return res.modifiedCount;
+}
+
+/** Public view of a job for GET /sm/jobs/:id */
+export function jobStatus(job: NonNullable<Awaited<ReturnType<typeof getJob>>>) {
+  return {
+    job_id: String(job._id),
+    status: job.status,
+    player_id: job.player_id,
+    session_id: job.session_id,
+    run_index: job.run_index,
+    attempts: job.attempts,
+    max_attempts: ENV.INGEST_MAX_ATTEMPTS,
+    ...(job.status === 'queued' && { next_attempt_at: job.next_attempt_at }),
+    ...(job.last_error && { last_error: job.last_error }),
+    ...(job.status === 'succeeded' && { result: job.result }),
+    created_at: job.createdAt,
+    updated_at: job.updatedAt,
+  };
+}
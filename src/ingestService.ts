@@ -0,0 +1,314 @@
+// src/ingestService.ts
+import type { ServerInput } from './types.ts';
+import type { BatchPlayer, PersonaStore, ReplayRun, SaveOptions, SaveResult, SaveTimings, ScopeSnapshot } from './memory/PersonaStore.ts';
+import { runScopeKeys, scopeKeyId } from './memory/TraitMemoryStore.ts';
+import type { TraitModel } from './traitModel.ts';
+import { generateTraitExplanations } from './traitEngine.ts';
+import { recordHistoryBatch } from './historyService.ts';
+import { loadTraitModel } from './traitModelLoader.ts';
+import { customMetricsSchema } from './traitModel.ts';
+import { acquirePlayerLock, PlayerLockTimeoutError, withPlayerLock } from './playerLock.ts';
+import type { PlayerLock } from './playerLock.ts';
+import { compareRuns, fetchPlayerRuns, hasLaterSavedRun, isRunLogged } from './runLog.ts';
+import { authorizePlayerWrite } from './tenantService.ts';
+import type { TenantContext, WriteDenial } from './tenantService.ts';
+import { logger } from './logger.ts';
+
+/**
+ * Validate `stats.custom` against the game's declared metrics and collapse sample arrays
+ * to single values. Runs that pass are stored and replayed in this normalized form.
+ */
+export async function normalizeCustomMetrics(serverInput: ServerInput) {
+  const model = await loadTraitModel(serverInput.game_context?.game_id);
+  const parsed = customMetricsSchema(model).safeParse(serverInput.stats.custom ?? {});
+  if (!parsed.success) return parsed;
+
+  const custom = parsed.data as Record<string, number>;
+  const stats = { ...serverInput.stats };
+  if (Object.keys(custom).length > 0) stats.custom = custom;
+  else delete stats.custom;
+  return { success: true as const, data: { ...serverInput, stats } };
+}
+
+/**
+ * A claimed run may no longer be saved by the time it holds the player lock: the player was
+ * erased while it waited (`player_erased`), or the tenant lost the player.
+ */
+export class RunWithdrawnError extends Error {
+  constructor(readonly code: 'player_erased' | WriteDenial['error'], message: string) {
+    super(message);
+    this.name = 'RunWithdrawnError';
+  }
+}
+
+/**
+ * Check, under the player lock, that a run authorized and claimed before it waited for the lock
+ * may still be written: an erasure holding the lock meanwhile deleted the run log entry and the
+ * player's ownership. `tenant` is the caller that authorized the run, when there is one.
+ */
+async function checkStillWritable(p: ServerInput, tenant?: TenantContext) {
+  if (!await isRunLogged(p)) {
+    throw new RunWithdrawnError('player_erased', `Player ${p.player_id} was erased while the save waited`);
+  }
+  const denied = tenant && await authorizePlayerWrite(tenant, p.player_id);
+  if (denied) throw new RunWithdrawnError(denied.error, denied.message);
+}
+
+/** Milliseconds per phase of applyRun - waiting for the player lock, the store's read/compute/write, model load and history */
+export type ApplyTimings = SaveTimings & {
+  lock_wait_ms: number;
+  model_ms: number;
+  history_ms: number;
+  total_ms: number;
+};
+
+/** `name;dur=ms` entries for a Server-Timing header */
+export function serverTiming(timings: Record<string, number>): string {
+  return Object.entries(timings)
+    .map(([name, ms]) => `${name.replace(/_ms$/, '')};dur=${ms.toFixed(1)}`)
+    .join(', ');
+}
+
+/**
+ * Blend one validated run into the player's personas and build the /sm/save response body.
+ * Does not touch the run log - callers claim the run first (see runLog.ts).
+ * Holds the player's write lock for the whole read-blend-write, so concurrent saves for one
+ * player are applied one after another instead of overwriting each other's traits.
+ * With `replay` (an earlier attempt may already have blended the run, see runLog.markRunApplying)
+ * the run's scopes are rebuilt from the run log instead.
+ * Throws RunWithdrawnError when the run may no longer be written once the lock is held.
+ */
+export async function applyRun(memory: PersonaStore, serverInput: ServerInput, options: { replay?: boolean; tenant?: TenantContext } = {}) {
+  const started = performance.now();
+  return withPlayerLock(serverInput, async ({ handoff }) => {
+    const lock_wait_ms = performance.now() - started;
+    await checkStillWritable(serverInput, options.tenant);
+    const { body, timings } = await blendRun(memory, serverInput, handoff, options.replay ?? false);
+    const applyTimings: ApplyTimings = { lock_wait_ms, ...timings, total_ms: performance.now() - started };
+    return { body, timings: applyTimings };
+  });
+}
+
+/** Save options for a run: its scopes from game_context, stored metadata and the game's model */
+export function saveOptionsFor(serverInput: ServerInput, model: TraitModel): SaveOptions {
+  const ctx = serverInput.game_context || {};
+  const game_id = ctx.game_id;
+  return {
+    ...(game_id && { game_id }),
+    genres: Array.isArray(ctx.genre_ids) ? ctx.genre_ids : [],
+    ...(ctx.genre_weights && { genre_weights: ctx.genre_weights }),
+    platforms: Array.isArray(ctx.platform_ids) ? ctx.platform_ids : [],
+    extraMeta: {
+      completed_at: serverInput.completed_at,
+      build_version: ctx.build_version,
+      game_title: ctx.game_title,
+    },
+    model,
+  };
+}
+
+/** Each run paired with its save options, every run blended with its game's current trait model */
+export async function replayPlan(runs: ServerInput[]): Promise<ReplayRun[]> {
+  return Promise.all(runs.map(async serverInput => ({
+    serverInput,
+    options: saveOptionsFor(serverInput, await loadTraitModel(serverInput.game_context?.game_id)),
+  })));
+}
+
+async function blendRun(memory: PersonaStore, serverInput: ServerInput, fresh: boolean, replay: boolean) {
+  const started = performance.now();
+  // One model drives both the blended traits and their explanations
+  const model = await loadTraitModel(serverInput.game_context?.game_id);
+  const options = saveOptionsFor(serverInput, model);
+  const model_ms = performance.now() - started;
+
+  // A run older than one already applied (offline upload, backfill) can't be blended on top of
+  // the stored personas: rebuild its scopes by replaying the player's runs in completed_at / run_index order
+  let saved: SaveResult;
+  let history: Array<{ serverInput: ServerInput; snapshots: ScopeSnapshot[] }>;
+  let replayed_runs: number | undefined;
+  if (replay || await hasLaterSavedRun(serverInput)) {
+    const runs = await fetchPlayerRuns(serverInput.player_id, [serverInput]);
+    const keys = runScopeKeys(options).all;
+    const { steps, ...result } = await memory.replayRuns(serverInput.player_id, await replayPlan(runs), { keys });
+    logger.info(replay ? 'Retried run replayed' : 'Backfilled run replayed', {
+      player_id: serverInput.player_id,
+      run_index: serverInput.run_index,
+      completed_at: serverInput.completed_at,
+      replayed_runs: runs.length,
+      scopes: result.snapshots.length,
+    });
+
+    // Every point from the backfilled run on changed in the rewritten scopes
+    const rewritten = new Set(keys.map(scopeKeyId));
+    history = steps
+      .filter(step => compareRuns(step.serverInput, serverInput) >= 0)
+      .map(step => ({ ...step, snapshots: step.snapshots.filter(s => rewritten.has(scopeKeyId(s.key))) }));
+    saved = result;
+    replayed_runs = runs.length;
+  } else {
+    saved = await memory.saveFromServerInput(serverInput, { ...options, fresh });
+    history = [{ serverInput, snapshots: saved.snapshots }];
+  }
+  const { snapshots, timings, ...result } = saved;
+
+  // Explanations cite the same previous global traits the save blended from - no second read
+  const global = snapshots.find(s => s.key.scope === 'global');
+  const trait_explanations = global
+    ? generateTraitExplanations(serverInput, global.previous, global.traits, model)
+    : [];
+
+  // History is derived data - a failure here must not fail (and re-blend on retry) a saved run
+  const historyStart = performance.now();
+  try {
+    await recordHistoryBatch(history);
+  } catch (e: any) {
+    logger.error('Failed to record persona history', {
+      error: e.message,
+      player_id: serverInput.player_id,
+      run_index: serverInput.run_index,
+    });
+  }
+
+  const history_ms = performance.now() - historyStart;
+
+  const body = {
+    ...result,
+    trait_model: { game_id: model.game_id ?? null, version: model.version },
+    trait_explanations,
+    ...(replayed_runs !== undefined && { replayed_runs }),
+  };
+  return { body, timings: { model_ms, ...timings, history_ms } };
+}
+
+/** A claimed run in a batch save; `index` is its position in the request, `replay` as in applyRun */
+export type BatchItem = { index: number; serverInput: ServerInput; replay?: boolean };
+
+export type BatchOutcome =
+  | { index: number; ok: true; body: Record<string, any> }
+  | { index: number; ok: false; error: string; message: string };
+
+const sameRun = (a: ServerInput, b: ServerInput) => a.session_id === b.session_id && a.run_index === b.run_index;
+
+/**
+ * Blend many runs, for one or more players, with one persona read per player and a single
+ * aggregated store write. Each player's runs are applied in completed_at / run_index order
+ * under their write lock; a player whose batch includes a run older than one already saved
+ * is rebuilt by replay, as in applyRun. Returns one outcome per item, in item order.
+ * Runs that may no longer be written once the lock is held fail, as in applyRun.
+ */
+export async function applyBatch(memory: PersonaStore, items: BatchItem[], options: { tenant?: TenantContext } = {}) {
+  const started = performance.now();
+  const outcomes = new Map<number, BatchOutcome>();
+  const fail = (list: BatchItem[], error: string, message: string) => {
+    for (const { index } of list) outcomes.set(index, { index, ok: false, error, message });
+  };
+
+  // Group per player, oldest run first
+  const byPlayer = new Map<string, BatchItem[]>();
+  for (const item of items) {
+    const list = byPlayer.get(item.serverInput.player_id) ?? [];
+    list.push(item);
+    byPlayer.set(item.serverInput.player_id, list);
+  }
+  for (const list of byPlayer.values()) list.sort((a, b) => compareRuns(a.serverInput, b.serverInput));
+
+  // Locks are taken in player_id order, so two overlapping batches can't deadlock
+  const locked: Array<{ items: BatchItem[]; lock: PlayerLock }> = [];
+  try {
+    for (const playerId of [...byPlayer.keys()].sort()) {
+      const list = byPlayer.get(playerId)!;
+      let lock: PlayerLock;
+      try {
+        lock = await acquirePlayerLock(list[0]!.serverInput);
+      } catch (e: any) {
+        if (!(e instanceof PlayerLockTimeoutError)) throw e;
+        fail(list, 'player_busy', e.message);
+        continue;
+      }
+      const held = { items: [] as BatchItem[], lock };
+      locked.push(held);
+      for (const item of list) {
+        try {
+          await checkStillWritable(item.serverInput, options.tenant);
+          held.items.push(item);
+        } catch (e: any) {
+          if (!(e instanceof RunWithdrawnError)) throw e;
+          fail([item], e.code, e.message);
+        }
+      }
+    }
+    const lock_wait_ms = performance.now() - started;
+
+    // Per player: the runs to blend, and whether they are a full replay
+    const plans: Array<{ items: BatchItem[]; models: TraitModel[]; player: BatchPlayer; from: ServerInput }> = [];
+    for (const { items: list, lock } of locked) {
+      if (list.length === 0) continue;
+      const runs = list.map(i => i.serverInput);
+      const planned = await replayPlan(runs);
+      const models = planned.map(r => r.options.model!);
+
+      const playerId = runs[0]!.player_id;
+      if (list.some(i => i.replay) || await hasLaterSavedRun(runs[0]!)) {
+        const history = await replayPlan(await fetchPlayerRuns(playerId, runs));
+        const keys = new Map(planned.flatMap(r => runScopeKeys(r.options).all).map(k => [scopeKeyId(k), k]));
+        plans.push({ items: list, models, from: runs[0]!, player: { playerId, runs: history, replay: true, keys: [...keys.values()], fresh: lock.handoff } });
+      } else {
+        plans.push({ items: list, models, from: runs[0]!, player: { playerId, runs: planned, fresh: lock.handoff } });
+      }
+    }
+    if (plans.length === 0) {
+      return { outcomes: items.map(i => outcomes.get(i.index)!), timings: null };
+    }
+
+    let saved;
+    try {
+      saved = await memory.saveBatch(plans.map(p => p.player));
+    } catch (e: any) {
+      for (const p of plans) fail(p.items, 'supermemory_save_failed', e.message);
+      return { outcomes: items.map(i => outcomes.get(i.index)!), timings: null };
+    }
+
+    const history: Array<{ serverInput: ServerInput; snapshots: ScopeSnapshot[] }> = [];
+    saved.players.forEach((result, i) => {
+      const plan = plans[i]!;
+      const rewritten = new Set(result.snapshots.map(s => scopeKeyId(s.key)));
+      // A replay rewrites every point from the oldest batch run on, in the rewritten scopes
+      for (const step of result.steps) {
+        if (plan.player.replay && compareRuns(step.serverInput, plan.from) < 0) continue;
+        history.push({ ...step, snapshots: step.snapshots.filter(s => rewritten.has(scopeKeyId(s.key))) });
+      }
+
+      plan.items.forEach((item, j) => {
+        const p = item.serverInput;
+        const model = plan.models[j]!;
+        const global = result.steps.find(step => sameRun(step.serverInput, p))?.snapshots.find(s => s.key.scope === 'global');
+        outcomes.set(item.index, {
+          index: item.index,
+          ok: true,
+          body: {
+            user_node: result.user_node,
+            memories_created: result.memories_created,
+            trait_model: { game_id: model.game_id ?? null, version: model.version },
+            trait_explanations: global ? generateTraitExplanations(p, global.previous, global.traits, model) : [],
+            ...(plan.player.replay && { replayed_runs: plan.player.runs.length }),
+          },
+        });
+      });
+    });
+
+    // History is derived data - a failure here must not fail (and re-blend on retry) saved runs
+    const historyStart = performance.now();
+    try {
+      await recordHistoryBatch(history);
+    } catch (e: any) {
+      logger.error('Failed to record persona history', { error: e.message, runs: history.length });
+    }
+    const history_ms = performance.now() - historyStart;
+
+    const timings = { lock_wait_ms, ...saved.timings, history_ms, total_ms: performance.now() - started };
+    return { outcomes: items.map(i => outcomes.get(i.index)!), timings };
+  } finally {
+    await Promise.all(locked.map(({ lock }) => lock.release()));
+  }
+}
@@ -0,0 +1,84 @@
+// src/ingestWorker.ts
+import { hostname } from 'node:os';
+import type { PersonaStore } from './memory/PersonaStore.ts';
+import type { ServerInput } from './types.ts';
+import { applyRun, RunWithdrawnError } from './ingestService.ts';
+import { claimNextJob, completeJob, dropJob, failJob, requeueStaleJobs } from './ingestQueue.ts';
+import { markRunApplying, markRunFailed, markRunSaved } from './runLog.ts';
+import { ENV } from './config.ts';
+import { logger } from './logger.ts';
+
+/**
+ * Drain the ingest queue (INGEST_MODE=async): apply queued runs one at a time, in order per player.
+ * Several server processes can run workers side by side - jobs are claimed atomically.
+ * Returns a stop function that resolves once the current job has finished.
+ */
+export function startIngestWorker(memory: PersonaStore) {
+  const workerId = `${hostname()}:${process.pid}`;
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const processJob = async (job: NonNullable<Awaited<ReturnType<typeof claimNextJob>>>) => {
+    const p = job.payload as ServerInput;
+    try {
+      // A retried job may have blended the run before failing to record it: rebuild instead
+      const replay = await markRunApplying(job.run_id);
+      const { body, timings } = await applyRun(memory, p, { replay });
+      await markRunSaved(job.run_id, body);
+      await completeJob(job, body);
+      logger.info('Ingest worker: Job succeeded', {
+        job_id: String(job._id),
+        player_id: job.player_id,
+        run_index: job.run_index,
+        attempts: job.attempts,
+        total_ms: Math.round(timings.total_ms),
+      });
+    } catch (e: any) {
+      // The player was erased while the job waited: retrying (or dead-lettering the payload)
+      // would bring their data back
+      if (e instanceof RunWithdrawnError) {
+        await dropJob(job);
+        logger.warn('Ingest worker: Job dropped, run withdrawn', {
+          job_id: String(job._id),
+          player_id: job.player_id,
+          run_index: job.run_index,
+          reason: e.code,
+        });
+        return;
+      }
+      const dead = await failJob(job, e.message);
+      if (dead) await markRunFailed(job.run_id);
+      logger[dead ? 'error' : 'warn'](`Ingest worker: Job ${dead ? 'dead-lettered' : 'failed, will retry'}`, {
+        job_id: String(job._id),
+        player_id: job.player_id,
+        run_index: job.run_index,
+        attempts: job.attempts,
+        error: e.message,
+      });
+    }
+  };
+
+  const tick = async () => {
+    try {
+      const requeued = await requeueStaleJobs();
+      if (requeued > 0) logger.warn('Ingest worker: Requeued stale jobs', { count: requeued });
+
+      // Drain everything due, then wait for the next poll
+      let job;
+      while (!stopped && (job = await claimNextJob(workerId))) await processJob(job);
+    } catch (e: any) {
+      logger.error('Ingest worker: Poll failed', { error: e.message });
+    }
+    if (!stopped) timer = setTimeout(() => { running = tick(); }, ENV.INGEST_POLL_MS);
+  };
+
+  logger.info('Ingest worker started', { worker_id: workerId, poll_ms: ENV.INGEST_POLL_MS });
+  running = tick();
+
+  return async function stop() {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    await running;
+  };
+}
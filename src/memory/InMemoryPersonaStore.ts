@@ -0,0 +1,78 @@
+// src/memory/InMemoryPersonaStore.ts
+import { randomUUID } from 'crypto';
+import { TraitMemoryStore, matchesMetadata } from './TraitMemoryStore.ts';
+import type { MemoryQuery, StoredMemory, TraitMemoryDoc } from './TraitMemoryStore.ts';
+
+type StoredDoc = StoredMemory & {
+  containerTags: string[];
+  customId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Process-local persona store for offline development and tests.
+ * Mirrors Supermemory semantics: writing a doc with an existing customId replaces it.
+ * Everything is lost on restart.
+ */
+export class InMemoryPersonaStore extends TraitMemoryStore {
+  private docs = new Map<string, StoredDoc>();
+
+  private matching(query: Pick<MemoryQuery, 'containerTag' | 'metadata'>): StoredDoc[] {
+    return [...this.docs.values()]
+      .filter(d => d.containerTags.includes(query.containerTag) && matchesMetadata(d.metadata, query.metadata));
+  }
+
+  protected async listMemories(query: MemoryQuery): Promise<StoredMemory[]> {
+    const sort = query.sort ?? 'updatedAt';
+    const matches = this.matching(query).sort((a, b) => a[sort].localeCompare(b[sort]));
+    if (query.order === 'desc') matches.reverse();
+
+    const start = ((query.page ?? 1) - 1) * query.limit;
+    return matches.slice(start, start + query.limit).map(d => ({
+      id: d.id,
+      metadata: d.metadata,
+      ...(query.includeContent && { content: d.content }),
+    }));
+  }
+
+  protected async countMemories(query: Pick<MemoryQuery, 'containerTag' | 'metadata'>): Promise<number> {
+    return this.matching(query).length;
+  }
+
+  protected async writeMemories(docs: TraitMemoryDoc[]) {
+    const now = new Date().toISOString();
+    const results = docs.map(doc => {
+      const existing = doc.customId ? this.docs.get(doc.customId) : undefined;
+      const id = existing?.id ?? doc.customId ?? randomUUID();
+      this.docs.set(id, {
+        id,
+        content: doc.content,
+        metadata: doc.metadata,
+        containerTags: [doc.containerTag],
+        ...(doc.customId && { customId: doc.customId }),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+      return { id, status: 'done' };
+    });
+    return { results, success: results.length, failed: 0 };
+  }
+
+  protected async deleteContainer(containerTag: string): Promise<number> {
+    let removed = 0;
+    for (const [id, doc] of this.docs) {
+      if (doc.containerTags.includes(containerTag)) {
+        this.docs.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async fetchDocumentById(docId: string) {
+    const doc = this.docs.get(docId);
+    if (!doc) throw new Error(`Document not found: ${docId}`);
+    return { ...doc, status: 'done' };
+  }
+}
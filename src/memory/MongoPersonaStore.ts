@@ -0,0 +1,82 @@
+// src/memory/MongoPersonaStore.ts
+import { TraitMemoryModel } from '../models/TraitMemory.model.ts';
+import { TraitMemoryStore } from './TraitMemoryStore.ts';
+import type { MemoryQuery, StoredMemory, TraitMemoryDoc } from './TraitMemoryStore.ts';
+
+/**
+ * Persona store backed by the `trait_memories` collection.
+ * Uses the same Mongo connection as the run log, so no external vendor is involved.
+ */
+export class MongoPersonaStore extends TraitMemoryStore {
+  private filterFor(query: Pick<MemoryQuery, 'containerTag' | 'metadata'>): Record<string, string> {
+    const filter: Record<string, string> = { container_tag: query.containerTag };
+    for (const [k, v] of Object.entries(query.metadata)) filter[`metadata.${k}`] = v;
+    return filter;
+  }
+
+  protected async listMemories(query: MemoryQuery): Promise<StoredMemory[]> {
+    const docs = await TraitMemoryModel.find(this.filterFor(query))
+      .sort({ [query.sort ?? 'updatedAt']: query.order === 'asc' ? 1 : -1, _id: 1 })
+      .skip(((query.page ?? 1) - 1) * query.limit)
+      .limit(query.limit)
+      .lean();
+
+    return docs.map(d => ({
+      id: String(d._id),
+      metadata: d.metadata as Record<string, any>,
+      ...(query.includeContent && { content: d.content }),
+    }));
+  }
+
+  protected async countMemories(query: Pick<MemoryQuery, 'containerTag' | 'metadata'>): Promise<number> {
+    return TraitMemoryModel.countDocuments(this.filterFor(query));
+  }
+
+  protected async writeMemories(docs: TraitMemoryDoc[]) {
+    const result = await TraitMemoryModel.bulkWrite(docs.map(doc => (
+      doc.customId
+        ? {
+            updateOne: {
+              filter: { custom_id: doc.customId },
+              update: { $set: { container_tag: doc.containerTag, content: doc.content, metadata: doc.metadata } },
+              upsert: true,
+            },
+          }
+        : {
+            insertOne: {
+              document: { container_tag: doc.containerTag, content: doc.content, metadata: doc.metadata },
+            },
+          }
+    )), { ordered: true });
+
+    return {
+      success: docs.length,
+      failed: 0,
+      inserted: result.insertedCount,
+      upserted: result.upsertedCount,
+      modified: result.modifiedCount,
+    };
+  }
+
+  protected async deleteContainer(containerTag: string): Promise<number> {
+    const result = await TraitMemoryModel.deleteMany({ container_tag: containerTag });
+    return result.deletedCount;
+  }
+
+  async fetchDocumentById(docId: string) {
+    const doc = await TraitMemoryModel.findOne(
+      /^[a-f0-9]{24}$/i.test(docId) ? { $or: [{ _id: docId }, { custom_id: docId }] } : { custom_id: docId }
+    ).lean();
+    if (!doc) throw new Error(`Document not found: ${docId}`);
+    return {
+      id: String(doc._id),
+      customId: doc.custom_id,
+      content: doc.content,
+      metadata: doc.metadata,
+      containerTags: [doc.container_tag],
+      status: 'done',
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    };
+  }
+}
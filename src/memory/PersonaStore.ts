@@ -0,0 +1,135 @@
+// src/memory/PersonaStore.ts
+import type { PersonaSnapshot, ServerInput, Traits } from '../types.ts';
+import type { TraitModel } from '../traitModel.ts';
+
+export type PersonaScope = 'global' | 'genre' | 'platform' | 'game';
+export type ListOrder = 'asc' | 'desc';
+
+export type ScopeKey =
+  | { scope: 'global' }
+  | { scope: 'genre'; genre_id: string }
+  | { scope: 'platform'; platform_id: string }
+  | { scope: 'game'; game_id: string };
+
+export type SaveOptions = {
+  game_id?: string;
+  genres?: string[];
+  genre_weights?: Record<string, number>; // per genre share of a full run, default 1
+  platforms?: string[];
+  extraMeta?: Record<string, any>;
+  model?: TraitModel; // defaults to the built-in trait model
+  fresh?: boolean;    // skip cached reads - another process may have written this player since
+};
+
+/** Traits written for one scope by a single save */
+export type ScopeSnapshot = {
+  key: ScopeKey;
+  traits: Traits;
+  confidence: Record<string, number>;
+  previous?: Traits; // traits the run was blended into, absent when the scope started from defaults
+};
+
+/** Milliseconds spent in each phase of a save */
+export type SaveTimings = {
+  read_ms: number;
+  compute_ms: number;
+  write_ms: number;
+};
+
+export type SaveResult = {
+  user_node: string;
+  memories_created: number;
+  batch_result: any;
+  snapshots: ScopeSnapshot[];
+  timings: SaveTimings;
+};
+
+/** A stored run and the save options it is blended with */
+export type ReplayRun = {
+  serverInput: ServerInput;
+  options: SaveOptions;
+};
+
+export type ReplayOptions = {
+  keys?: ScopeKey[]; // scopes to rewrite, default every scope the runs touch
+  dryRun?: boolean;  // compute and compare against the stored personas, write nothing
+};
+
+export type ReplayResult = SaveResult & {
+  steps: Array<{ serverInput: ServerInput; snapshots: ScopeSnapshot[] }>; // every scope after each replayed run
+};
+
+/** One player's share of a batch save */
+export type BatchPlayer = {
+  playerId: string;
+  runs: ReplayRun[];  // blended in this order
+  replay?: boolean;   // runs are the player's whole history: start from trait defaults, not the stored personas
+  keys?: ScopeKey[];  // scopes to write, default every scope the runs touch
+  fresh?: boolean;    // skip cached reads (see SaveOptions.fresh)
+};
+
+export type BatchSaveResult = {
+  memories_created: number;
+  batch_result: any;
+  players: Array<{
+    player_id: string;
+    user_node: string;
+    memories_created: number;
+    snapshots: ScopeSnapshot[];  // final traits per written scope
+    steps: ReplayResult['steps'];
+  }>;
+  timings: SaveTimings;
+};
+
+/** Persona listing order: last update, or scope type (global, game, genre, platform) then first save */
+export type PersonaSort = 'updated_at' | 'scope';
+
+export type FetchByFiltersParams = {
+  player_id: string;
+  scope?: PersonaScope | 'any';
+  game_id?: string;
+  genre_id?: string;
+  platform_id?: string;
+  limit?: number;      // personas per page
+  order?: ListOrder;   // direction of `sort`
+  sort?: PersonaSort;  // default updated_at
+  cursor?: string;     // next_cursor of the previous page
+  includeContent?: boolean;
+  allowedScopes?: PersonaScope[]; // only these scopes are visible (default: all)
+  allowedGameIds?: string[];      // only these games' game-scope personas are visible (default: all)
+};
+
+export type PersonaItem = {
+  id: string;
+  metadata: Record<string, any>;
+  persona: PersonaSnapshot;
+};
+
+export type FetchByFiltersResult = {
+  total: number;              // personas matching the filters, across all pages
+  items: PersonaItem[];
+  next_cursor: string | null; // null on the last page
+  user_node: string;
+};
+
+/**
+ * Storage backend for player personas.
+ * Routes only talk to this interface, so backends (Supermemory, MongoDB, in-memory)
+ * can be swapped via ENV.PERSONA_STORE without touching server.ts.
+ */
+export interface PersonaStore {
+  /** Latest persona for one exact scope, or null if the player has none there */
+  fetchLatestPersona(playerId: string, key: ScopeKey): Promise<{ doc?: any; persona?: PersonaSnapshot } | null>;
+  /** Blend a run into every affected scope and persist the new traits */
+  saveFromServerInput(serverInput: ServerInput, options?: SaveOptions): Promise<SaveResult>;
+  /** Blend runs for several players with one read per player and one aggregated write */
+  saveBatch(players: BatchPlayer[], options?: { dryRun?: boolean }): Promise<BatchSaveResult>;
+  /** Recompute personas from scratch by blending runs in the given order, then persist the final traits */
+  replayRuns(playerId: string, runs: ReplayRun[], options?: ReplayOptions): Promise<ReplayResult>;
+  /** List personas for a player, optionally narrowed by scope and ids */
+  fetchByFilters(params: FetchByFiltersParams): Promise<FetchByFiltersResult>;
+  /** Raw stored document by id */
+  fetchDocumentById(docId: string): Promise<any>;
+  /** Delete every memory under the player's container tag; returns how many were removed */
+  deletePlayerMemories(playerId: string): Promise<number>;
+}
@@ -0,0 +1,78 @@
+// src/memory/PlayerReadCache.ts
+
+type Entry<T> = { value: T; expires: number };
+
+// Sweep expired entries once this many players are cached
+const SWEEP_THRESHOLD = 1000;
+
+/**
+ * Short-lived, per-player cache of backend reads.
+ * Reads take a generation (a tick of one process-wide clock) before they start; every write for a
+ * player records the tick it happened at and drops the player's entries. A read that started
+ * before the player's last write is not cached, so stale data never lands.
+ * Write ticks are only kept while the player has cached entries: sweeping one raises a floor
+ * every older read is held to instead, so memory stays bounded by the number of cached players.
+ * Per process only - with several instances, staleness is bounded by the TTL.
+ */
+export class PlayerReadCache<T> {
+  private entries = new Map<string, Map<string, Entry<T>>>();
+  private writtenAt = new Map<string, number>();
+  private clock = 0;
+  private floor = 0; // latest write tick dropped by a sweep
+
+  constructor(private ttlMs: number) {}
+
+  get enabled() {
+    return this.ttlMs > 0;
+  }
+
+  /** Take before reading; pass to set() so a concurrent invalidation discards the result */
+  generation(_player: string): number {
+    return this.clock;
+  }
+
+  get(player: string, key: string): T | undefined {
+    const entry = this.entries.get(player)?.get(key);
+    if (!entry) return undefined;
+    if (entry.expires <= Date.now()) {
+      this.entries.get(player)!.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(player: string, key: string, value: T, generation: number) {
+    if (!this.enabled || generation < this.floor || generation < (this.writtenAt.get(player) ?? 0)) return;
+    if (!this.entries.has(player)) {
+      if (this.entries.size >= SWEEP_THRESHOLD) this.sweep();
+      this.entries.set(player, new Map());
+    }
+    this.entries.get(player)!.set(key, { value, expires: Date.now() + this.ttlMs });
+  }
+
+  invalidate(player: string) {
+    if (!this.enabled) return;
+    if (!this.writtenAt.has(player) && this.writtenAt.size >= SWEEP_THRESHOLD) this.sweep();
+    this.writtenAt.set(player, ++this.clock);
+    this.entries.delete(player);
+  }
+
+  /** Number of players with cached entries or a recorded write */
+  get size() {
+    return new Set([...this.entries.keys(), ...this.writtenAt.keys()]).size;
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [player, byKey] of this.entries) {
+      for (const [key, entry] of byKey) if (entry.expires <= now) byKey.delete(key);
+      if (byKey.size === 0) this.entries.delete(player);
+    }
+    // Write ticks of players without entries: no cached value depends on them any more
+    for (const [player, tick] of this.writtenAt) {
+      if (this.entries.has(player)) continue;
+      this.floor = Math.max(this.floor, tick);
+      this.writtenAt.delete(player);
+    }
+  }
+}
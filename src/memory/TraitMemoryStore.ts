@@ -0,0 +1,868 @@
+// src/memory/TraitMemoryStore.ts
+import type { BlendState, PersonaSnapshot, ServerInput } from '../types.ts';
+import { blendTraits, personaText, topSignals } from '../traitEngine.ts';
+import type { BlendPrior } from '../traitEngine.ts';
+import { blendScopes } from '../personaResolver.ts';
+import type { ScopeSource } from '../personaResolver.ts';
+import { BUILTIN_TRAITS, hasBuiltinTraits, sortTraitNames, traitLabel, traitNames } from '../traitRegistry.ts';
+import { ENV } from '../config.ts';
+import { DEFAULT_TRAIT_MODEL } from '../traitModel.ts';
+import type { TraitModel } from '../traitModel.ts';
+import { logger } from '../logger.ts';
+import { PlayerReadCache } from './PlayerReadCache.ts';
+import type {
+  FetchByFiltersParams,
+  FetchByFiltersResult,
+  ListOrder,
+  BatchPlayer,
+  BatchSaveResult,
+  PersonaItem,
+  PersonaScope,
+  PersonaSort,
+  PersonaStore,
+  ReplayOptions,
+  ReplayResult,
+  ReplayRun,
+  SaveOptions,
+  SaveResult,
+  ScopeKey,
+  ScopeSnapshot,
+} from './PersonaStore.ts';
+
+/** One trait value for one scope, as written to the backend */
+export type TraitMemoryDoc = {
+  content: string;
+  metadata: Record<string, any>;
+  containerTag: string;
+  customId?: string;
+};
+
+/** A trait memory as read back from the backend */
+export type StoredMemory = {
+  id: string;
+  content?: string;
+  metadata: Record<string, any>;
+};
+
+/** Document timestamp a list is ordered by */
+export type MemorySort = 'createdAt' | 'updatedAt';
+
+/** Backend-neutral list query: exact-match metadata filters within one container tag */
+export type MemoryQuery = {
+  containerTag: string;
+  metadata: Record<string, string>;
+  limit: number;  // page size
+  page?: number;  // 1-based, default 1
+  order: ListOrder;
+  sort?: MemorySort; // default updatedAt
+  includeContent: boolean;
+};
+
+// Page size when a read needs every matching memory
+export const LIST_PAGE_SIZE = 500;
+
+/** One scope's trait memories folded into persona fields */
+type AggregatedMemories = {
+  traits: Record<string, number>;
+  labels: Record<string, string>;
+  confidence: Record<string, number>;
+  blend_state?: BlendState;
+  updated_at: string;
+};
+
+/** Stable id of a scope key, e.g. "global", "game:skyline_runner", "genre:platformer" */
+export function scopeKeyId(key: ScopeKey): string {
+  if (key.scope === 'game')     return `game:${key.game_id}`;
+  if (key.scope === 'genre')    return `genre:${key.genre_id}`;
+  if (key.scope === 'platform') return `platform:${key.platform_id}`;
+  return 'global';
+}
+
+// Scope id of a stored trait memory, matching scopeKeyId
+function memoryScopeId(metadata: Record<string, any> = {}): string {
+  const scope = metadata.persona_scope || 'global';
+  if (scope === 'game' && metadata.game_id)         return `game:${metadata.game_id}`;
+  if (scope === 'genre' && metadata.genre_id)       return `genre:${metadata.genre_id}`;
+  if (scope === 'platform' && metadata.platform_id) return `platform:${metadata.platform_id}`;
+  return scope;
+}
+
+/** Scope keys a run is blended into: global, then game, genres and platforms (deduplicated) */
+export function runScopeKeys(options: SaveOptions) {
+  const gameId    = options.game_id ?? ENV.GAME_ID;
+  const genres    = [...new Set(options.genres ?? [])].filter(Boolean);
+  const platforms = [...new Set(options.platforms ?? [])].filter(Boolean);
+  const globalKey: ScopeKey = { scope: 'global' };
+  const gameKey: ScopeKey | null = gameId ? { scope: 'game', game_id: gameId } : null;
+  const genreKeys = genres.map(genre_id => ({ scope: 'genre' as const, genre_id }));
+  const platformKeys = platforms.map(platform_id => ({ scope: 'platform' as const, platform_id }));
+  return {
+    globalKey, gameKey, genreKeys, platformKeys,
+    all: [globalKey, ...(gameKey ? [gameKey] : []), ...genreKeys, ...platformKeys],
+  };
+}
+
+/** Scope key a stored trait memory belongs to, or null when its scope fields are incomplete */
+function memoryScopeKey(metadata: Record<string, any> = {}): ScopeKey | null {
+  const scope = metadata.persona_scope || 'global';
+  if (scope === 'global') return { scope: 'global' };
+  if (scope === 'game' && metadata.game_id)         return { scope: 'game', game_id: metadata.game_id };
+  if (scope === 'genre' && metadata.genre_id)       return { scope: 'genre', genre_id: metadata.genre_id };
+  if (scope === 'platform' && metadata.platform_id) return { scope: 'platform', platform_id: metadata.platform_id };
+  return null;
+}
+
+// Scope types in `sort=scope` order
+const SCOPE_TYPES: PersonaScope[] = ['global', 'game', 'genre', 'platform'];
+
+// Listings page through the memories of this trait: a scope has exactly one (global: one per game)
+const HEAD_TRAIT = BUILTIN_TRAITS[0];
+
+/**
+ * Where a persona listing stands: the scope type being listed (`sort=scope` lists them one
+ * after another), the upstream page and page size, the next index on that page, and whether
+ * the global persona was already returned.
+ */
+type PersonaPosition = { step: number; page: number; pageSize: number; index: number; globalListed: boolean };
+
+/** One persona picked for a page, with the position just past it */
+type PersonaCandidate = { key: ScopeKey; item?: PersonaItem; after: PersonaPosition };
+
+/** What a persona listing reads, shared by its count and its pages */
+type PersonaListing = {
+  playerId: string;
+  sort: PersonaSort;
+  order: ListOrder;
+  types: PersonaScope[];           // scope types listed (requested and visible)
+  narrow: Record<string, string>;  // game_id/genre_id/platform_id filters
+  allowedGameIds?: string[];
+  includeContent: boolean;
+};
+
+/** Order of two personas by [updated_at, scope id]; the scope id breaks ties */
+function compareSortKeys(a: [string, string], b: [string, string]): number {
+  if (a[0] !== b[0]) return a[0] < b[0] ? -1 : 1;
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+}
+
+/** Opaque next_cursor: the upstream position after the last persona returned, bound to the sort and order it was issued for */
+function encodePersonaCursor(sort: PersonaSort, order: ListOrder, pos: PersonaPosition): string {
+  const { step: t, page: p, pageSize: l, index: i, globalListed: g } = pos;
+  return Buffer.from(JSON.stringify({ s: sort, o: order, t, p, l, i, g })).toString('base64url');
+}
+
+/** Position a cursor points at; throws when it is malformed or was issued for another sort/order */
+export function decodePersonaCursor(cursor: string, sort: PersonaSort, order: ListOrder): PersonaPosition {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Malformed cursor');
+  }
+  const { t, p, l, i, g } = decoded ?? {};
+  const atLeast = (n: unknown, min: number): n is number => Number.isInteger(n) && (n as number) >= min;
+  if (!atLeast(t, 0) || !atLeast(p, 1) || !atLeast(l, 1) || l > LIST_PAGE_SIZE || !atLeast(i, 0) || typeof g !== 'boolean') {
+    throw new Error('Malformed cursor');
+  }
+  if (decoded.s !== sort || decoded.o !== order) {
+    throw new Error(`Cursor was issued for sort=${decoded.s}&order=${decoded.o}`);
+  }
+  return { step: t, page: p, pageSize: l, index: i, globalListed: g };
+}
+
+/** True when every filter key matches the memory metadata exactly */
+export function matchesMetadata(metadata: Record<string, any>, filter: Record<string, string>): boolean {
+  return Object.entries(filter).every(([k, v]) => metadata?.[k] === v);
+}
+
+/**
+ * Persona logic shared by every backend.
+ * Personas are stored as one "trait memory" per trait per scope, all linked to the
+ * player's user node; subclasses only provide raw list/write/get primitives.
+ */
+export abstract class TraitMemoryStore implements PersonaStore {
+  protected abstract listMemories(query: MemoryQuery): Promise<StoredMemory[]>;
+  /** How many memories match, across all pages */
+  protected abstract countMemories(query: Pick<MemoryQuery, 'containerTag' | 'metadata'>): Promise<number>;
+  protected abstract writeMemories(docs: TraitMemoryDoc[]): Promise<any>;
+  abstract fetchDocumentById(docId: string): Promise<any>;
+  /** Remove every document under a container tag; returns how many were removed */
+  protected abstract deleteContainer(containerTag: string): Promise<number>;
+
+  private readCache = new PlayerReadCache<StoredMemory[]>(ENV.PERSONA_CACHE_TTL_MS);
+
+  // ---------- Cached primitives ----------
+  /** listMemories through the per-player read cache */
+  protected async readMemories(query: MemoryQuery): Promise<StoredMemory[]> {
+    const player = query.containerTag;
+    const key = JSON.stringify([query.metadata, query.limit, query.page ?? 1, query.order, query.sort ?? 'updatedAt', query.includeContent]);
+    const cached = this.readCache.get(player, key);
+    if (cached) return cached;
+
+    const generation = this.readCache.generation(player);
+    const memories = await this.listMemories(query);
+    this.readCache.set(player, key, memories, generation);
+    return memories;
+  }
+
+  /**
+   * Every memory matching the query, reading page after page until a short page. Never stops
+   * early: a partial listing would blend, export or erase only part of a player's memories.
+   */
+  protected async readAllMemories(query: Omit<MemoryQuery, 'page'>): Promise<StoredMemory[]> {
+    const all: StoredMemory[] = [];
+    for (let page = 1; ; page++) {
+      const memories = await this.readMemories({ ...query, page });
+      all.push(...memories);
+      if (memories.length < query.limit) return all;
+    }
+  }
+
+  /** writeMemories, then drop cached reads for every player written (even if the write failed part-way) */
+  protected async persistMemories(docs: TraitMemoryDoc[]): Promise<any> {
+    try {
+      return await this.writeMemories(docs);
+    } finally {
+      for (const tag of new Set(docs.map(d => d.containerTag))) this.readCache.invalidate(tag);
+    }
+  }
+
+  async deletePlayerMemories(playerId: string): Promise<number> {
+    const tag = this.userNodeTag(playerId);
+    try {
+      return await this.deleteContainer(tag);
+    } finally {
+      this.readCache.invalidate(tag);
+    }
+  }
+
+  // ---------- Helpers ----------
+  // User node containerTag - all memories for a user are linked via this single tag
+  protected userNodeTag(playerId: string): string {
+    return playerId; // e.g., "user10" - this is the user node
+  }
+
+  protected mdFromSnapshot(
+    title: string,
+    key: ScopeKey,
+    snap: PersonaSnapshot,
+    derived: Record<string, any> = {},
+    labels: Record<string, string> = {}
+  ) {
+    const lines = [
+      `# ${title}`,
+      ``,
+      `**Player:** ${snap.player_id}`,
+      key.scope === 'game'     ? `**Game:** ${key.game_id}` :
+      key.scope === 'genre'    ? `**Genre:** ${key.genre_id}` :
+      key.scope === 'platform' ? `**Platform:** ${key.platform_id}` :
+                                  `**Scope:** Global`,
+      `**Updated At:** ${snap.updated_at}`,
+      ``,
+      `## Traits`,
+      ...sortTraitNames(Object.keys(snap.traits)).map(name => `- ${labels[name] ?? traitLabel(name)}: ${snap.traits[name]}`),
+      ``,
+      `## Persona Text`,
+      snap.persona_text,
+      ``,
+      `## Top Signals`,
+      ...(snap.top_signals?.length ? snap.top_signals.map(s => `- ${s}`) : ['- (none)']),
+      ``,
+      `## Full Persona JSON`,
+      '```json',
+      JSON.stringify({ ...snap, ...derived }, null, 2),
+      '```',
+      ''
+    ];
+    return lines.join('\n');
+  }
+
+  /** Metadata filter selecting one exact scope key */
+  protected scopeFilter(playerId: string, key: ScopeKey): Record<string, string> {
+    const filter: Record<string, string> = {
+      player_id: playerId,
+      type: 'trait_memory',
+      persona_scope: key.scope,
+    };
+    if (key.scope === 'game')     filter.game_id = key.game_id;
+    if (key.scope === 'genre')    filter.genre_id = key.genre_id;
+    if (key.scope === 'platform') filter.platform_id = key.platform_id;
+    return filter;
+  }
+
+  /**
+   * Fold one scope's trait memories into a persona.
+   * Use the LATEST value per trait (not average): each memory is already blended
+   * sequentially when saved, so averaging would cause double-averaging.
+   */
+  protected aggregateMemories(memories: StoredMemory[]): AggregatedMemories {
+    const traits: Record<string, number> = {};
+    const labels: Record<string, string> = {};
+    const confidence: Record<string, number> = {};
+    const consistency: Record<string, number> = {};
+    const traitUpdated: Record<string, string> = {};
+    let latestUpdated = '';
+    let latestMeta: Record<string, any> | undefined;
+
+    for (const memory of memories) {
+      const md = memory.metadata ?? {};
+      const traitName = md.trait_name;
+      const updatedAt = md.updated_at || '';
+      if (!traitName || md.trait_value === undefined) continue;
+
+      // Most recent update wins, per trait
+      if (traitUpdated[traitName] !== undefined && updatedAt < traitUpdated[traitName]!) continue;
+      traitUpdated[traitName] = updatedAt;
+      traits[traitName] = md.trait_value;
+      if (md.trait_label) labels[traitName] = md.trait_label;
+      if (typeof md.trait_confidence === 'number') confidence[traitName] = md.trait_confidence;
+      if (typeof md.trait_consistency === 'number') consistency[traitName] = md.trait_consistency;
+
+      if (updatedAt >= latestUpdated) {
+        latestUpdated = updatedAt;
+        latestMeta = md;
+      }
+    }
+
+    // Memories written before blend state was tracked carry no run_count
+    const blend_state: BlendState | undefined = typeof latestMeta?.run_count === 'number' ? {
+      run_count: latestMeta.run_count,
+      effective_runs: latestMeta.effective_runs ?? latestMeta.run_count,
+      consistency,
+      ...(latestMeta.last_completed_at && { last_completed_at: latestMeta.last_completed_at }),
+    } : undefined;
+
+    return { traits, labels, confidence, ...(blend_state && { blend_state }), updated_at: latestUpdated };
+  }
+
+  /** PersonaSnapshot for aggregated trait memories, or null without all built-in traits */
+  protected snapshotFromAggregate(playerId: string, agg: AggregatedMemories): PersonaSnapshot | null {
+    const { traits } = agg;
+    if (!hasBuiltinTraits(traits)) return null;
+    return {
+      player_id: playerId,
+      traits,
+      persona_text: personaText(traits, undefined, agg.labels),
+      top_signals: [], // Would need to store this separately if needed
+      updated_at: agg.updated_at || new Date().toISOString(),
+      ...(Object.keys(agg.confidence).length > 0 && { confidence: agg.confidence }),
+      ...(agg.blend_state && { blend_state: agg.blend_state }),
+    };
+  }
+
+  // ---------- High-level ----------
+  /** Fetch latest persona for a specific scope key (global/genre/platform/game).
+   * Now aggregates from individual trait memories instead of persona documents. */
+  async fetchLatestPersona(playerId: string, key: ScopeKey): Promise<{ doc?: any; persona?: PersonaSnapshot } | null> {
+    // Every page: global keeps one memory per trait per game, and upserts keep their original
+    // createdAt, so the current value of a trait can sit anywhere in the list
+    const memories = await this.readAllMemories({
+      containerTag: this.userNodeTag(playerId),
+      metadata: this.scopeFilter(playerId, key),
+      limit: LIST_PAGE_SIZE,
+      order: 'desc',
+      includeContent: false,
+    });
+
+    if (memories.length === 0) return null;
+
+    // Not enough traits to form a complete persona (custom traits are optional)
+    const agg = this.aggregateMemories(memories);
+    const persona = this.snapshotFromAggregate(playerId, agg);
+    if (!persona) return null;
+
+    // Create a synthetic doc for backward compatibility
+    const doc = {
+      id: 'aggregated',
+      metadata: {
+        type: 'persona',
+        persona_scope: key.scope,
+        player_id: playerId,
+        updated_at: agg.updated_at
+      },
+      content: this.mdFromSnapshot('Persona Snapshot', key, persona, {}, agg.labels)
+    };
+
+    return { doc, persona };
+  }
+
+  /**
+   * Latest persona for each key, by scopeKeyId. Lists once per scope type rather than once per key,
+   * in parallel, so the number of backend calls stays bounded however many genres/platforms a run lists.
+   */
+  protected async fetchScopePersonas(playerId: string, keys: ScopeKey[]): Promise<Map<string, PersonaSnapshot>> {
+    const personas = new Map<string, PersonaSnapshot>();
+    const scopes = [...new Set(keys.map(k => k.scope))];
+
+    await Promise.all(scopes.map(async scope => {
+      const scopeKeys = keys.filter(k => k.scope === scope);
+      const wanted = new Set(scopeKeys.map(scopeKeyId));
+      const memories = await this.readAllMemories({
+        containerTag: this.userNodeTag(playerId),
+        // A single key can use the exact filter; several share one list of the whole scope type
+        metadata: scopeKeys.length === 1
+          ? this.scopeFilter(playerId, scopeKeys[0]!)
+          : { player_id: playerId, type: 'trait_memory', persona_scope: scope },
+        limit: LIST_PAGE_SIZE,
+        order: 'desc',
+        includeContent: false,
+      });
+
+      const groups = new Map<string, StoredMemory[]>();
+      for (const memory of memories) {
+        const id = memoryScopeId(memory.metadata);
+        if (!wanted.has(id)) continue;
+        if (!groups.has(id)) groups.set(id, []);
+        groups.get(id)!.push(memory);
+      }
+      for (const [id, group] of groups) {
+        const persona = this.snapshotFromAggregate(playerId, this.aggregateMemories(group));
+        if (persona) personas.set(id, persona);
+      }
+    }));
+    return personas;
+  }
+
+  /**
+   * Blend one run into every scope it touches, starting from `prev` (stored personas by scope id).
+   * Pure - returns the memories to write and the new persona per scope id without touching the backend.
+   */
+  protected blendRun(serverInput: ServerInput, options: SaveOptions, prev: Map<string, PersonaSnapshot>) {
+    const playerId = serverInput.player_id;
+    const model    = options.model ?? DEFAULT_TRAIT_MODEL;
+    const { globalKey, gameKey, genreKeys, platformKeys } = runScopeKeys(options);
+    const gameId   = gameKey?.scope === 'game' ? gameKey.game_id : undefined;
+
+    const extraMeta = {
+      run_index: serverInput.run_index,
+      run_result: serverInput.run_outcome.result,
+      run_path: serverInput.run_outcome.path,
+      game_id: gameId,
+      completed_at: serverInput.completed_at,
+      trait_model_version: model.version,
+      ...options.extraMeta
+    };
+
+    const memories: TraitMemoryDoc[] = [];
+    const snapshots: ScopeSnapshot[] = [];
+    const personas = new Map<string, PersonaSnapshot>();
+    const prevOf = (key: ScopeKey) => prev.get(scopeKeyId(key));
+
+    const addScope = (key: ScopeKey, prior: BlendPrior | undefined, metadata: Record<string, any>, runWeight = 1) => {
+      const snap = this.buildSnapshot(playerId, serverInput, prior, model, runWeight);
+      memories.push(...this.createTraitMemories(playerId, snap, key, metadata, model));
+      personas.set(scopeKeyId(key), snap);
+      snapshots.push({
+        key,
+        traits: snap.traits,
+        confidence: snap.confidence ?? {},
+        ...(prior && { previous: prior.traits }),
+      });
+    };
+
+    // GLOBAL
+    addScope(globalKey, prevOf(globalKey), extraMeta);
+
+    // GAME - a player's first run in a game starts from their genre/platform/global profile
+    if (gameKey) {
+      const prevGame = prevOf(gameKey);
+      const sources: ScopeSource[] = [...genreKeys, ...platformKeys, globalKey].flatMap(key => {
+        const persona = prevOf(key);
+        return persona ? [{ key, persona }] : [];
+      });
+      const seed = prevGame ? null : blendScopes(sources, model, serverInput.completed_at);
+      if (seed) logger.info(`Seeding game persona ${gameId} for ${playerId} from ${seed.sources.map(s => s.scope).join(', ')}`);
+
+      // The seed only sets the starting traits; the game scope still has no runs of its own
+      addScope(gameKey, prevGame
+        ?? (seed ? { traits: seed.traits, blend_state: { run_count: 0, effective_runs: 0, consistency: {} } } : undefined),
+        extraMeta);
+    }
+
+    // GENRES - every listed genre, each counting for its game_context.genre_weights share (default 1)
+    for (const key of genreKeys) {
+      addScope(key, prevOf(key), { ...extraMeta, genre_id: key.genre_id }, options.genre_weights?.[key.genre_id] ?? 1);
+    }
+
+    // PLATFORMS - every listed platform
+    for (const key of platformKeys) {
+      addScope(key, prevOf(key), { ...extraMeta, platform_id: key.platform_id });
+    }
+
+    return { memories, snapshots, personas };
+  }
+
+  /** Save from ServerInput - Creates individual memories linked to user node */
+  async saveFromServerInput(serverInput: ServerInput, options: SaveOptions = {}): Promise<SaveResult> {
+    const playerId = serverInput.player_id;
+    const userNode = this.userNodeTag(playerId);
+
+    // Fetch previous personas for every affected scope before blending
+    // If no previous persona exists, the model's trait defaults are the starting point
+    const readStart = performance.now();
+    if (options.fresh) this.readCache.invalidate(userNode);
+    const prev = await this.fetchScopePersonas(playerId, runScopeKeys(options).all);
+    const read_ms = performance.now() - readStart;
+
+    const computeStart = performance.now();
+    const { memories, snapshots } = this.blendRun(serverInput, options, prev);
+    const compute_ms = performance.now() - computeStart;
+
+    // Batch create all memories - all linked to user node via containerTag
+    logger.info(`Creating ${memories.length} memories for user node: ${userNode}`);
+    const writeStart = performance.now();
+    const batchResult = await this.persistMemories(memories);
+    const write_ms = performance.now() - writeStart;
+
+    return {
+      user_node: userNode,
+      memories_created: memories.length,
+      batch_result: batchResult,
+      snapshots,
+      timings: { read_ms, compute_ms, write_ms },
+    };
+  }
+
+  /** Blend runs one after another starting from `start`; keeps the memories of each scope's last write */
+  private blendSequence(runs: ReplayRun[], start: Map<string, PersonaSnapshot>) {
+    const state = new Map(start);
+    const lastWrite = new Map<string, { key: ScopeKey; memories: TraitMemoryDoc[] }>();
+    const steps: ReplayResult['steps'] = [];
+
+    for (const run of runs) {
+      const { memories, snapshots, personas } = this.blendRun(run.serverInput, run.options, state);
+      for (const [id, persona] of personas) state.set(id, persona);
+      for (const snap of snapshots) {
+        const id = scopeKeyId(snap.key);
+        lastWrite.set(id, { key: snap.key, memories: memories.filter(m => memoryScopeId(m.metadata) === id) });
+      }
+      steps.push({ serverInput: run.serverInput, snapshots });
+    }
+    return { state, lastWrite, steps };
+  }
+
+  /**
+   * Blend several runs for one or more players with a single read per player and one
+   * aggregated write. Each player's runs are blended in the order given, on top of their
+   * stored personas (or from trait defaults with `replay`); only each scope's final traits
+   * are written. `previous` on each snapshot is the persona stored before the batch.
+   */
+  async saveBatch(players: BatchPlayer[], options: { dryRun?: boolean } = {}): Promise<BatchSaveResult> {
+    const readStart = performance.now();
+    const stored = await Promise.all(players.map(p => {
+      if (p.fresh) this.readCache.invalidate(this.userNodeTag(p.playerId));
+      const keys = new Map((p.keys ?? p.runs.flatMap(r => runScopeKeys(r.options).all)).map(k => [scopeKeyId(k), k]));
+      return this.fetchScopePersonas(p.playerId, [...keys.values()]);
+    }));
+    const read_ms = performance.now() - readStart;
+
+    const computeStart = performance.now();
+    const results = players.map((p, i) => {
+      const before = stored[i]!;
+      const { state, lastWrite, steps } = this.blendSequence(p.runs, p.replay ? new Map() : before);
+      const wanted = p.keys ? new Set(p.keys.map(scopeKeyId)) : null;
+      const written = [...lastWrite.entries()].filter(([id]) => !wanted || wanted.has(id));
+
+      const snapshots: ScopeSnapshot[] = written.map(([id, { key }]) => {
+        const persona = state.get(id)!;
+        const previous = before.get(id)?.traits;
+        return { key, traits: persona.traits, confidence: persona.confidence ?? {}, ...(previous && { previous }) };
+      });
+      return {
+        player_id: p.playerId,
+        user_node: this.userNodeTag(p.playerId),
+        memories: options.dryRun ? [] : written.flatMap(([, w]) => w.memories),
+        snapshots,
+        steps,
+      };
+    });
+    const memories = results.flatMap(r => r.memories);
+    const compute_ms = performance.now() - computeStart;
+
+    logger.info(`Batch blending ${players.reduce((n, p) => n + p.runs.length, 0)} run(s) for ${players.length} player(s), ${options.dryRun ? 'dry run' : `writing ${memories.length} memories`}`);
+    const writeStart = performance.now();
+    const batchResult = memories.length > 0 ? await this.persistMemories(memories) : null;
+    const write_ms = performance.now() - writeStart;
+
+    return {
+      memories_created: memories.length,
+      batch_result: batchResult,
+      players: results.map(({ memories, ...r }) => ({ ...r, memories_created: memories.length })),
+      timings: { read_ms, compute_ms, write_ms },
+    };
+  }
+
+  /**
+   * Rebuild a player's personas by blending `runs` one by one, in the order given, starting
+   * from trait defaults. Only the final state of each scope is written (limited to
+   * `options.keys` when given, nothing with `options.dryRun`); `previous` on each snapshot is
+   * the persona stored before the replay.
+   */
+  async replayRuns(playerId: string, runs: ReplayRun[], options: ReplayOptions = {}): Promise<ReplayResult> {
+    const { batch_result, players, timings } = await this.saveBatch(
+      [{ playerId, runs, replay: true, ...(options.keys && { keys: options.keys }) }],
+      { ...(options.dryRun !== undefined && { dryRun: options.dryRun }) },
+    );
+    const { user_node, memories_created, snapshots, steps } = players[0]!;
+    return { user_node, memories_created, batch_result, snapshots, steps, timings };
+  }
+
+  /**
+   * One page of a player's personas. Pages through the upstream list of head-trait memories
+   * (one per persona) from the cursor's page and reads only the personas returned, instead of
+   * every trait memory the player has.
+   */
+  async fetchByFilters(params: FetchByFiltersParams): Promise<FetchByFiltersResult> {
+    const {
+      player_id, scope = 'any', game_id, genre_id, platform_id,
+      limit = 100, order = 'desc', includeContent = true,
+      sort = 'updated_at', cursor, allowedScopes, allowedGameIds
+    } = params;
+    // Throws on a malformed cursor or one issued for a different sort/order
+    const from = cursor ? decodePersonaCursor(cursor, sort, order) : null;
+
+    const userNode = this.userNodeTag(player_id);
+
+    // Additional filters, applied to every trait memory read
+    const narrow: Record<string, string> = {};
+    if (game_id && (scope === 'game' || scope === 'any'))             narrow.game_id = game_id;
+    if (genre_id && (scope === 'genre' || scope === 'any'))           narrow.genre_id = genre_id;
+    if (platform_id && (scope === 'platform' || scope === 'any'))     narrow.platform_id = platform_id;
+
+    // Tenant restrictions apply before paging, so totals and cursors only count visible personas
+    const listing: PersonaListing = {
+      playerId: player_id,
+      sort,
+      order,
+      types: (scope === 'any' ? SCOPE_TYPES : [scope]).filter(t => !allowedScopes || allowedScopes.includes(t)),
+      narrow,
+      ...(allowedGameIds && { allowedGameIds }),
+      includeContent,
+    };
+
+    const [global, heads] = await Promise.all([
+      listing.types.includes('global') ? this.personaItem(listing, { scope: 'global' }) : null,
+      this.countPersonaHeads(listing),
+    ]);
+
+    // Pick one persona more than the page holds, to know whether there is a next page
+    const picked: PersonaCandidate[] = [];
+    let more = false;
+    const pageSize = Math.min(Math.max(limit, 1), LIST_PAGE_SIZE);
+    for await (const candidate of this.personaCandidates(listing, global, from ?? { step: 0, page: 1, pageSize, index: 0, globalListed: false })) {
+      if (picked.length === limit) {
+        more = true;
+        break;
+      }
+      picked.push(candidate);
+    }
+
+    // Only include personas that have all built-in traits
+    const items = (await Promise.all(picked.map(c => c.item ?? this.personaItem(listing, c.key))))
+      .filter((p): p is PersonaItem => p !== null);
+    const last = picked[picked.length - 1];
+    const next_cursor = more && last ? encodePersonaCursor(sort, order, last.after) : null;
+
+    return { total: heads + (global ? 1 : 0), items, next_cursor, user_node: userNode };
+  }
+
+  /** Metadata filter for the head-trait memories of one scope type, or of every type */
+  private headFilter(listing: PersonaListing, scope?: PersonaScope): Record<string, string> {
+    return {
+      player_id: listing.playerId,
+      type: 'trait_memory',
+      trait_name: HEAD_TRAIT,
+      ...(scope && { persona_scope: scope }),
+      ...listing.narrow,
+    };
+  }
+
+  /** Visible game, genre and platform personas of a listing (global is counted by the caller) */
+  private async countPersonaHeads(listing: PersonaListing): Promise<number> {
+    const containerTag = this.userNodeTag(listing.playerId);
+    const counts = await Promise.all(listing.types.filter(t => t !== 'global').flatMap(scope => {
+      // Restricted game scopes are counted game by game
+      if (scope !== 'game' || !listing.allowedGameIds) {
+        return [this.countMemories({ containerTag, metadata: this.headFilter(listing, scope) })];
+      }
+      const games = [...new Set(listing.allowedGameIds)].filter(g => !listing.narrow.game_id || g === listing.narrow.game_id);
+      return games.map(g => this.countMemories({ containerTag, metadata: { ...this.headFilter(listing, scope), game_id: g } }));
+    }));
+    return counts.reduce((sum, n) => sum + n, 0);
+  }
+
+  /**
+   * Personas of a listing in order, starting at `from`. `sort=scope` walks the scope types one
+   * after another, each oldest (first saved) first; `sort=updated_at` walks every type in one list
+   * by last update, with the global persona (assembled from one memory per game) merged in by its
+   * own updated_at.
+   */
+  private async *personaCandidates(listing: PersonaListing, global: PersonaItem | null, from: PersonaPosition): AsyncGenerator<PersonaCandidate> {
+    const containerTag = this.userNodeTag(listing.playerId);
+    const steps: Array<PersonaScope | null> = listing.sort === 'scope'
+      ? (listing.order === 'asc' ? listing.types : [...listing.types].reverse())
+      : [null];
+    const sign = listing.order === 'asc' ? 1 : -1;
+    const globalFirst = (md: Record<string, any>) => !!global && sign * compareSortKeys(
+      [global.persona.updated_at, 'global'], [md.updated_at || '', memoryScopeId(md)],
+    ) < 0;
+
+    let pos = from;
+    for (; pos.step < steps.length; pos = { ...pos, step: pos.step + 1, page: 1, index: 0 }) {
+      const step = steps[pos.step]!;
+      const types = step ? [step] : listing.types;
+
+      if (types.some(t => t !== 'global')) {
+        const metadata = this.headFilter(listing, step ?? (types.length === 1 ? types[0] : undefined));
+        for (;;) {
+          const memories = await this.readMemories({
+            containerTag,
+            metadata,
+            limit: pos.pageSize,
+            page: pos.page,
+            order: listing.order,
+            sort: step ? 'createdAt' : 'updatedAt',
+            includeContent: false,
+          });
+          for (let i = pos.index; i < memories.length; i++) {
+            const md = memories[i]!.metadata ?? {};
+            const key = memoryScopeKey(md);
+            if (!key || key.scope === 'global' || !types.includes(key.scope) || !matchesMetadata(md, metadata)) continue;
+            if (listing.allowedGameIds && key.scope === 'game' && !listing.allowedGameIds.includes(key.game_id)) continue;
+
+            if (!step && !pos.globalListed && globalFirst(md)) {
+              pos = { ...pos, index: i, globalListed: true };
+              yield { key: { scope: 'global' }, item: global!, after: pos };
+            }
+            yield { key, after: { ...pos, index: i + 1 } };
+          }
+          if (memories.length < pos.pageSize) {
+            pos = { ...pos, index: memories.length };
+            break;
+          }
+          pos = { ...pos, page: pos.page + 1, index: 0 };
+        }
+      }
+
+      if (global && !pos.globalListed && types.includes('global')) {
+        pos = { ...pos, globalListed: true };
+        yield { key: { scope: 'global' }, item: global, after: pos };
+      }
+    }
+  }
+
+  /** A listed persona, read with its exact scope filter; null without all built-in traits */
+  private async personaItem(listing: PersonaListing, key: ScopeKey): Promise<PersonaItem | null> {
+    const memories = await this.readAllMemories({
+      containerTag: this.userNodeTag(listing.playerId),
+      metadata: { ...this.scopeFilter(listing.playerId, key), ...listing.narrow },
+      limit: LIST_PAGE_SIZE,
+      order: 'desc',
+      includeContent: listing.includeContent,
+    });
+    const persona = this.snapshotFromAggregate(listing.playerId, this.aggregateMemories(memories));
+    if (!persona) return null;
+
+    const md = memories[0]!.metadata ?? {};
+    return {
+      id: memories[0]!.id,
+      metadata: {
+        type: 'persona',
+        persona_scope: key.scope,
+        player_id: listing.playerId,
+        ...(md.game_id && { game_id: md.game_id }),
+        ...(md.genre_id && { genre_id: md.genre_id }),
+        ...(md.platform_id && { platform_id: md.platform_id }),
+        updated_at: persona.updated_at,
+      },
+      persona,
+    };
+  }
+
+  /** Build the PersonaSnapshot a run produces when blended into `prev` */
+  protected buildSnapshot(playerId: string, serverInput: ServerInput, prev?: BlendPrior, model?: TraitModel, runWeight = 1): PersonaSnapshot {
+    const { traits, confidence, blend_state } = blendTraits(serverInput, prev, model, serverInput.completed_at, runWeight);
+    return {
+      player_id: playerId,
+      traits,
+      persona_text: personaText(traits, model),
+      top_signals: topSignals(serverInput, model),
+      updated_at: new Date().toISOString(),
+      confidence,
+      blend_state,
+    };
+  }
+
+  /** Create individual memory documents for each trait, all linked to user node */
+  protected createTraitMemories(
+    playerId: string,
+    snap: PersonaSnapshot,
+    scope: ScopeKey,
+    metadata: Record<string, any>,
+    model: TraitModel = DEFAULT_TRAIT_MODEL
+  ): TraitMemoryDoc[] {
+    const memories: TraitMemoryDoc[] = [];
+    const userNode = this.userNodeTag(playerId);
+    const now = new Date().toISOString();
+    const { traits, confidence, blend_state } = snap;
+
+    // Create a memory for each trait the model declares (built-in and custom)
+    for (const traitName of traitNames(model)) {
+      const traitValue = traits[traitName];
+      if (traitValue === undefined) continue;
+      const label = traitLabel(traitName, model);
+
+      // Create simple memory content - avoid words that trigger "Report" title generation
+      // Just a simple statement: "Independence: 0.50" (shorter, more direct)
+      const content = `${label}: ${traitValue.toFixed(2)}`;
+
+      // Scope identifier for customId (e.g., "global", "game_test_game", "genre_platformer")
+      let scopeId: string = scope.scope;
+      if (scope.scope === 'game') scopeId = `game_${scope.game_id}`;
+      else if (scope.scope === 'genre') scopeId = `genre_${scope.genre_id}`;
+      else if (scope.scope === 'platform') scopeId = `platform_${scope.platform_id}`;
+
+      // For global scope: Create separate memory per game so we can aggregate all contributions
+      // For other scopes: Use stable customId to update existing memory
+      let customId: string;
+      if (scope.scope === 'global') {
+        // Include game_id in global scope customId so each game contributes separately
+        // Then aggregate when fetching
+        const gameId = metadata.game_id || 'unknown';
+        customId = `memory_${playerId}_${scopeId}_${gameId}_${traitName}`;
+      } else {
+        // Game/genre/platform scopes: stable ID to update existing
+        customId = `memory_${playerId}_${scopeId}_${traitName}`;
+      }
+
+      memories.push({
+        content,
+        containerTag: userNode, // All memories linked to user node
+        customId,
+        // Run metadata first, so it can never overwrite the trait or scope fields
+        metadata: {
+          ...metadata,
+          type: 'trait_memory',
+          player_id: playerId,
+          trait_name: traitName,
+          trait_label: label,
+          trait_value: traitValue,
+          ...(confidence?.[traitName] !== undefined && { trait_confidence: confidence[traitName] }),
+          ...(blend_state && {
+            trait_consistency: blend_state.consistency[traitName],
+            run_count: blend_state.run_count,
+            effective_runs: blend_state.effective_runs,
+            last_completed_at: blend_state.last_completed_at,
+          }),
+          persona_scope: scope.scope,
+          updated_at: now,
+          ...(scope.scope === 'game' && { game_id: scope.game_id }),
+          ...(scope.scope === 'genre' && { genre_id: scope.genre_id }),
+          ...(scope.scope === 'platform' && { platform_id: scope.platform_id }),
+        }
+      });
+    }
+
+    return memories;
+  }
+}
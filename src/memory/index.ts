@@ -0,0 +1,17 @@
+// src/memory/index.ts
+import { ENV } from '../config.ts';
+import { logger } from '../logger.ts';
+import type { PersonaStore } from './PersonaStore.ts';
+import { SupermemoryStore } from './SupermemoryStore.ts';
+import { InMemoryPersonaStore } from './InMemoryPersonaStore.ts';
+import { MongoPersonaStore } from './MongoPersonaStore.ts';
+
+/** Build the persona store selected by ENV.PERSONA_STORE */
+export function createPersonaStore(): PersonaStore {
+  logger.info(`Using persona store: ${ENV.PERSONA_STORE}`);
+  switch (ENV.PERSONA_STORE) {
+    case 'memory':      return new InMemoryPersonaStore();
+    case 'mongo':       return new MongoPersonaStore();
+    case 'supermemory': return new SupermemoryStore();
+  }
+}
@@ -2,6 +2,27 @@
 import type { Request, Response, NextFunction } from 'express';
 import { ENV } from '../config.ts';
 import { logger } from '../logger.ts';
+import { findTenantByKey, findTenantByKeyId, legacyTenant } from '../tenantService.ts';
+import { SignatureError, verifyRequestSignature, verifySessionToken } from '../sessionService.ts';
+import type { KeyLookup, TenantContext } from '../tenantService.ts';
+
+// Get API key from headers
+function readApiKey(req: Request) {
+  return req.headers['x-api-key'] ||
+    req.headers['X-API-Key'] ||
+    (req.headers.authorization?.startsWith('Bearer ')
+      ? req.headers.authorization.substring(7)
+      : null);
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      tenant?: TenantContext; // set by requireApiKey
+      rawBody?: Buffer;       // request body as received, for signature checks
+    }
+  }
+}
 
 /**
  * Middleware to check API key authentication
@@ -9,15 +30,13 @@ import { logger } from '../logger.ts';
  * - X-API-Key header (preferred)
  * - Authorization: Bearer <key> header
  * - x-api-key header (case-insensitive fallback)
+ * Keys are looked up in the `tenants` collection (revoked and expired keys are rejected); keys
+ * from ENV.API_KEYS still work as an unrestricted legacy tenant. The tenant is attached to the request as `req.tenant`.
+ * Requests carrying X-Session-Token are checked as signed session requests instead.
  */
-export function requireApiKey(req: Request, res: Response, next: NextFunction) {
-  // Get API key from headers
-  const apiKey = 
-    req.headers['x-api-key'] || 
-    req.headers['X-API-Key'] ||
-    (req.headers.authorization?.startsWith('Bearer ') 
-      ? req.headers.authorization.substring(7) 
-      : null);
+export async function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  if (req.headers['x-session-token']) return requireSignedSession(req, res, next);
+  const apiKey = readApiKey(req);
 
   if (!apiKey || typeof apiKey !== 'string') {
     logger.warn('API key missing', {
@@ -31,34 +50,151 @@ export function requireApiKey(req: Request, res: Response, next: NextFunction) {
     });
   }
 
-  // Check if API key is valid
-  const validKeys = ENV.API_KEYS;
-  if (!validKeys || validKeys.length === 0) {
-    logger.error('No API keys configured in environment');
+  let lookup: KeyLookup;
+  try {
+    lookup = ENV.API_KEYS.includes(apiKey) ? { tenant: legacyTenant(apiKey) } : await findTenantByKey(apiKey);
+  } catch (e: any) {
+    logger.error('API key lookup failed', { path: req.path, error: e.message });
     return res.status(500).json({
-      error: 'server_configuration_error',
-      message: 'API keys not configured',
+      error: 'auth_unavailable',
+      message: 'Could not verify API key',
     });
   }
 
-  if (!validKeys.includes(apiKey)) {
-    logger.warn('Invalid API key', {
+  if (!lookup || 'rejected' in lookup) {
+    logger.warn(lookup ? `API key ${lookup.rejected}` : 'Invalid API key', {
       path: req.path,
       method: req.method,
       ip: req.ip || req.socket.remoteAddress,
       keyPrefix: apiKey.substring(0, 8) + '...',
     });
-    return res.status(403).json({
-      error: 'forbidden',
-      message: 'Invalid API key',
-    });
+    return res.status(403).json(lookup
+      ? { error: `key_${lookup.rejected}`, message: `API key ${lookup.rejected}` }
+      : { error: 'forbidden', message: 'Invalid API key' });
   }
+  const { tenant } = lookup;
 
   // API key is valid, continue
+  req.tenant = tenant;
   logger.debug('API key validated', {
     path: req.path,
     keyPrefix: apiKey.substring(0, 8) + '...',
+    studio: tenant.studio,
   });
   next();
 }
 
+/**
+ * Signed-request mode for game clients: X-Session-Token (from POST /sm/sessions) plus
+ * X-Timestamp, X-Nonce and X-Signature over the request. The request acts as the tenant key
+ * that issued the session, limited to the session's player.
+ */
+async function requireSignedSession(req: Request, res: Response, next: NextFunction) {
+  if (!ENV.SESSION_SECRET) {
+    return res.status(401).json({
+      error: 'sessions_disabled',
+      message: 'Session tokens are not enabled on this server',
+    });
+  }
+
+  let lookup: KeyLookup;
+  let playerId: string;
+  try {
+    const claims = verifySessionToken(String(req.headers['x-session-token']));
+    await verifyRequestSignature(claims, {
+      timestamp: req.get('X-Timestamp'),
+      nonce: req.get('X-Nonce'),
+      signature: req.get('X-Signature'),
+      method: req.method,
+      url: req.originalUrl,
+      body: req.rawBody,
+    });
+    lookup = await findTenantByKeyId(claims.tid, claims.kid);
+    playerId = claims.pid;
+  } catch (e: any) {
+    if (e instanceof SignatureError) {
+      logger.warn('Signed request rejected', {
+        path: req.path,
+        method: req.method,
+        ip: req.ip || req.socket.remoteAddress,
+        error: e.error,
+      });
+      return res.status(401).json({ error: e.error, message: e.message });
+    }
+    logger.error('Session verification failed', { path: req.path, error: e.message });
+    return res.status(500).json({
+      error: 'auth_unavailable',
+      message: 'Could not verify session',
+    });
+  }
+
+  // The key the session was issued under was revoked, expired or deleted since
+  if (!lookup || 'rejected' in lookup) {
+    return res.status(403).json(lookup
+      ? { error: `key_${lookup.rejected}`, message: `API key behind this session ${lookup.rejected}` }
+      : { error: 'forbidden', message: 'Session key no longer exists' });
+  }
+
+  req.tenant = { ...lookup.tenant, session_player: playerId };
+  logger.debug('Signed session validated', { path: req.path, studio: lookup.tenant.studio, player_id: playerId });
+  next();
+}
+
+/** Route middleware: the request's tenant must hold `permission` (after requireApiKey) */
+export function requirePermission(permission: 'read' | 'write') {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.tenant?.permissions[permission]) return next();
+    logger.warn(`API key lacks ${permission} permission`, {
+      path: req.path,
+      method: req.method,
+      studio: req.tenant?.studio,
+    });
+    return res.status(403).json({
+      error: 'forbidden',
+      message: `API key does not have ${permission} permission`,
+    });
+  };
+}
+
+/**
+ * Middleware for /admin routes: same headers as requireApiKey, checked against ADMIN_API_KEYS.
+ * Regular API keys are never accepted here.
+ */
+export function requireAdminKey(req: Request, res: Response, next: NextFunction) {
+  const apiKey = readApiKey(req);
+
+  if (!apiKey || typeof apiKey !== 'string') {
+    logger.warn('Admin API key missing', {
+      path: req.path,
+      method: req.method,
+      ip: req.ip || req.socket.remoteAddress,
+    });
+    return res.status(401).json({
+      error: 'unauthorized',
+      message: 'Admin API key required. Provide via X-API-Key header or Authorization: Bearer <key>',
+    });
+  }
+
+  if (ENV.ADMIN_API_KEYS.length === 0) {
+    logger.error('Admin route called but no ADMIN_API_KEYS configured');
+    return res.status(403).json({
+      error: 'forbidden',
+      message: 'Admin routes are disabled (ADMIN_API_KEYS not configured)',
+    });
+  }
+
+  if (!ENV.ADMIN_API_KEYS.includes(apiKey)) {
+    logger.warn('Invalid admin API key', {
+      path: req.path,
+      method: req.method,
+      ip: req.ip || req.socket.remoteAddress,
+      keyPrefix: apiKey.substring(0, 8) + '...',
+    });
+    return res.status(403).json({
+      error: 'forbidden',
+      message: 'Invalid admin API key',
+    });
+  }
+
+  next();
+}
@@ -0,0 +1,68 @@
+// src/middleware/rateLimit.ts
+import type { Request, Response, NextFunction } from 'express';
+import { routeLimit } from '../usageService.ts';
+import type { RateLimitedRoute } from '../usageService.ts';
+import type { LimitDecision, UsageKey, UsageStore } from '../usage/UsageStore.ts';
+import { logger } from '../logger.ts';
+
+/**
+ * Build per-route rate-limit middleware over a usage store (after requireApiKey).
+ * Each API key has its own token bucket and daily quota per route. Signed session traffic is
+ * counted against a bucket of its player first, so one game client can't use up its studio's
+ * limits, and then against the key's, so all clients together stay within them. Over a
+ * limit the request gets 429 with Retry-After. If the store fails the request is let through - limits protect
+ * upstream quota, they shouldn't take the API down with them.
+ */
+export function rateLimiter(store: UsageStore) {
+  return (route: RateLimitedRoute) => async (req: Request, res: Response, next: NextFunction) => {
+    const tenant = req.tenant;
+    if (!tenant) return next();
+    const limit = routeLimit(tenant.limits, route);
+    if (!limit.rate_per_minute && !limit.daily_quota) return next();
+
+    const keyLevel: UsageKey = { tenant_id: tenant.id, key_id: tenant.key_id, route };
+    const buckets = tenant.session_player !== undefined
+      ? [{ ...keyLevel, player_id: tenant.session_player }, keyLevel]
+      : [keyLevel];
+
+    // Stops at the first bucket that rejects; the buckets after it are not charged
+    const allowed: Array<Extract<LimitDecision, { allowed: true }>> = [];
+    let decision: LimitDecision | undefined;
+    try {
+      for (const bucket of buckets) {
+        decision = await store.consume(bucket, limit);
+        if (!decision.allowed) break;
+        allowed.push(decision);
+      }
+    } catch (e: any) {
+      logger.warn('Rate limit check failed, allowing request', { route, studio: tenant.studio, error: e.message });
+      return next();
+    }
+
+    if (!decision || decision.allowed) {
+      // The tighter of the buckets counted
+      const tokens = Math.min(...allowed.map(d => d.tokens));
+      const dayCount = Math.max(...allowed.map(d => d.day_count));
+      if (limit.rate_per_minute) res.set('X-RateLimit-Remaining', String(tokens));
+      if (limit.daily_quota) res.set('X-Quota-Remaining', String(Math.max(0, limit.daily_quota - dayCount)));
+      return next();
+    }
+
+    const retryAfter = Math.max(1, Math.ceil(decision.retry_after_ms / 1000));
+    logger.warn(`${decision.reason === 'quota_exceeded' ? 'Daily quota exceeded' : 'Rate limited'}`, {
+      path: req.path,
+      route,
+      studio: tenant.studio,
+      key_id: tenant.key_id,
+      player_id: tenant.session_player,
+      retry_after_s: retryAfter,
+    });
+    return res.status(429).set('Retry-After', String(retryAfter)).json({
+      error: decision.reason,
+      message: decision.reason === 'quota_exceeded'
+        ? `Daily quota of ${limit.daily_quota} requests for ${route} reached; resets at 00:00 UTC`
+        : `Rate limit of ${limit.rate_per_minute} requests per minute for ${route} exceeded`,
+      retry_after_s: retryAfter,
+    });
+  };
+}
@@ -0,0 +1,19 @@
+// src/models/DeadLetter.ts
+import mongoose from 'mongoose';
+
+// Ingest job that ran out of attempts - kept for inspection and manual replay
+const DeadLetterSchema = new mongoose.Schema({
+  job_id: { type: mongoose.Schema.Types.ObjectId, required: true },
+  run_id: { type: mongoose.Schema.Types.ObjectId, required: true },
+  player_id: { type: String, required: true },
+  session_id: { type: String, required: true },
+  run_index: { type: Number, required: true },
+  attempts: { type: Number, required: true },
+  last_error: { type: String },
+  failures: [{ at: Date, error: String, _id: false }],
+  payload: { type: Object, required: true }
+}, { timestamps: true });
+
+DeadLetterSchema.index({ player_id: 1, createdAt: -1 });
+
+export const DeadLetterModel = mongoose.model('ingest_dead_letters', DeadLetterSchema);
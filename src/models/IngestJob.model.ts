@@ -0,0 +1,28 @@
+// src/models/IngestJob.ts
+import mongoose from 'mongoose';
+
+// One queued run waiting to be blended into personas (INGEST_MODE=async)
+const IngestJobSchema = new mongoose.Schema({
+  run_id: { type: mongoose.Schema.Types.ObjectId, required: true },
+  player_id: { type: String, required: true },
+  session_id: { type: String, required: true },
+  run_index: { type: Number, required: true },
+  completed_at: { type: Date, required: true },
+  payload: { type: Object, required: true }, // validated, normalized ServerInput
+  status: { type: String, enum: ['queued','processing','succeeded','dead','cancelled'], default: 'queued' },
+  attempts: { type: Number, default: 0 },
+  next_attempt_at: { type: Date, default: Date.now },
+  locked_at: { type: Date },
+  locked_by: { type: String },
+  last_error: { type: String },
+  failures: [{ at: Date, error: String, _id: false }],
+  result: { type: mongoose.Schema.Types.Mixed } // /sm/save response body once succeeded
+}, { timestamps: true });
+
+IngestJobSchema.index({ run_id: 1 }, { unique: true });
+IngestJobSchema.index({ status: 1, next_attempt_at: 1 });
+IngestJobSchema.index({ player_id: 1, status: 1, completed_at: 1, run_index: 1 });
+
+export const IngestJobModel = mongoose.model('ingest_jobs', IngestJobSchema);
+export type IngestJob = mongoose.InferSchemaType<typeof IngestJobSchema>;
+export type IngestJobDocument = mongoose.HydratedDocument<IngestJob>;
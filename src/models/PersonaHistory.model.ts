@@ -0,0 +1,27 @@
+// src/models/PersonaHistory.ts
+import mongoose from 'mongoose';
+
+// Trait snapshot written for one scope by one run - the persona time series
+const PersonaHistorySchema = new mongoose.Schema({
+  player_id: { type: String, required: true },
+  persona_scope: { type: String, enum: ['global','game','genre','platform'], required: true },
+  scope_id: { type: String, default: null }, // game_id / genre_id / platform_id, null for global
+  session_id: { type: String, required: true },
+  run_index: { type: Number, required: true },
+  completed_at: { type: Date, required: true },
+  game_id: { type: String },
+  run_outcome: {
+    result: { type: String, enum: ['win','loss'], required: true },
+    path: { type: String, enum: ['combat','puzzle','exploration'], required: true }
+  },
+  traits: { type: Object, required: true },
+  confidence: { type: Object } // per trait, absent on points recorded before confidence tracking
+}, { timestamps: true });
+
+PersonaHistorySchema.index({ player_id: 1, persona_scope: 1, scope_id: 1, completed_at: -1 });
+PersonaHistorySchema.index(
+  { player_id: 1, persona_scope: 1, scope_id: 1, session_id: 1, run_index: 1 },
+  { unique: true }
+);
+
+export const PersonaHistoryModel = mongoose.model('persona_history', PersonaHistorySchema);
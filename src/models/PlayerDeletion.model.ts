@@ -0,0 +1,26 @@
+// src/models/PlayerDeletion.ts
+import mongoose from 'mongoose';
+
+// Audit trail of erasure requests: who asked, when, and what was removed (no player data is kept)
+const PlayerDeletionSchema = new mongoose.Schema({
+  player_id: { type: String, required: true, index: true },
+  requested_by: {
+    tenant_id: { type: String, required: true }, // "env" for legacy API_KEYS keys
+    studio: { type: String, required: true },
+    key_id: { type: String, required: true },
+  },
+  reason: { type: String },
+  status: { type: String, enum: ['started', 'completed', 'failed'], default: 'started' },
+  deleted: {
+    memories: Number,
+    runs: Number,
+    history: Number,
+    ingest_jobs: Number,
+    dead_letters: Number,
+    debug_logs: Number,
+  },
+  error: { type: String },
+  completed_at: { type: Date },
+}, { timestamps: true });
+
+export const PlayerDeletionModel = mongoose.model('player_deletions', PlayerDeletionSchema);
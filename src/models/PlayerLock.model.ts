@@ -0,0 +1,20 @@
+// src/models/PlayerLock.ts
+import mongoose from 'mongoose';
+
+// Per-player write lease: one save at a time, waiters admitted oldest run first
+const PlayerLockSchema = new mongoose.Schema({
+  _id: { type: String }, // player_id
+  holder: { type: String, default: null },
+  expires_at: { type: Date, default: null },
+  last_owner: { type: String, default: null }, // process that last released the lock after writing
+  waiters: [{
+    id: String,
+    completed_at: Date,
+    run_index: Number,
+    seen_at: Date, // waiters that stop polling are dropped after the lease TTL
+    _id: false
+  }],
+  version: { type: Number, default: 0 } // bumped on every change - compare-and-set guard
+}, { timestamps: true });
+
+export const PlayerLockModel = mongoose.model('player_locks', PlayerLockSchema);
@@ -0,0 +1,10 @@
+// src/models/PlayerOwner.ts
+import mongoose from 'mongoose';
+
+// The tenant an admin provisioned a player for; only that tenant may read or write the player
+const PlayerOwnerSchema = new mongoose.Schema({
+  _id: { type: String }, // player_id
+  tenant_id: { type: mongoose.Schema.Types.ObjectId, required: true, index: true },
+}, { timestamps: true });
+
+export const PlayerOwnerModel = mongoose.model('player_owners', PlayerOwnerSchema);
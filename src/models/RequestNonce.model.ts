@@ -0,0 +1,12 @@
+// src/models/RequestNonce.ts
+import mongoose from 'mongoose';
+
+// Nonces of signed requests, kept until their timestamp falls out of the clock-skew window
+const RequestNonceSchema = new mongoose.Schema({
+  _id: { type: String }, // session_id:nonce - a second insert means a replayed request
+  expires_at: { type: Date, required: true },
+});
+
+RequestNonceSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export const RequestNonceModel = mongoose.model('request_nonces', RequestNonceSchema);
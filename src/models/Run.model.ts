@@ -6,13 +6,27 @@ const RunSchema = new mongoose.Schema({
   session_id: { type: String, required: true },
   run_index: { type: Number, required: true },
   completed_at: { type: String, required: true },
+  schema_version: { type: String },
+  game_id: { type: String, index: true },
   result: { type: String, enum: ['win','loss'], required: true },
   path: { type: String, enum: ['combat','puzzle','exploration'], required: true },
   stats_json: { type: Object, required: true },
   config_json: { type: Object, required: true },
-  events_digest: { type: Array, default: [] }
+  events_digest: { type: Array, default: [] },
+  game_context: { type: Object, default: {} },
+  performance_summary: { type: mongoose.Schema.Types.Mixed },
+  // Idempotency - a run is blended into personas at most once
+  idempotency_key: { type: String }, // "<tenant_id>:<key>" (see runLog.scopedIdempotencyKey)
+  ingest_status: { type: String, enum: ['processing','queued','saved','failed'], default: 'processing' },
+  ingest_started_at: { type: Date, default: Date.now },
+  apply_started_at: { type: Date }, // first blend attempt; a retry after it rebuilds by replay
+  save_result: { type: mongoose.Schema.Types.Mixed }
 }, { timestamps: true });
 
 RunSchema.index({ player_id: 1, run_index: -1 });
+RunSchema.index({ player_id: 1, session_id: 1, run_index: 1 }, { unique: true });
+RunSchema.index({ idempotency_key: 1 }, { unique: true, sparse: true });
 
 export const RunModel = mongoose.model('runs', RunSchema);
+export type Run = mongoose.InferSchemaType<typeof RunSchema>;
+export type RunDocument = mongoose.HydratedDocument<Run>;
@@ -0,0 +1,44 @@
+// src/models/Tenant.ts
+import { randomBytes } from 'node:crypto';
+import mongoose from 'mongoose';
+
+// Overrides of the default rate limits (ENV.RATE_LIMIT_*, ENV.DAILY_QUOTA); unset fields inherit
+const RouteLimitSchema = new mongoose.Schema({
+  rate_per_minute: { type: Number, min: 0 },
+  burst: { type: Number, min: 0 },
+  daily_quota: { type: Number, min: 0 },
+}, { _id: false });
+
+// A studio's API access: which games it may write and read, which persona scopes it may read
+const TenantSchema = new mongoose.Schema({
+  studio: { type: String, required: true },
+  name: { type: String },
+  game_ids: { type: [String], default: [] },  // "*" allows every game
+  scopes: { type: [String], enum: ['global', 'game', 'genre', 'platform'], default: ['global', 'game', 'genre', 'platform'] },
+  permissions: {
+    read: { type: Boolean, default: true },
+    write: { type: Boolean, default: false },
+  },
+  limits: {
+    default: { type: RouteLimitSchema },         // every route
+    routes: { type: Map, of: RouteLimitSchema }, // by route name (save, personas, ...), over `default`
+  },
+  // Keys are stored as SHA-256 hashes; the plain key is shown once when issued
+  keys: [{
+    key_id: { type: String, required: true, default: () => randomBytes(6).toString('hex') }, // addresses the key in admin routes
+    key_hash: { type: String, required: true },
+    key_prefix: { type: String, required: true }, // first characters, for logs and listings
+    name: { type: String },
+    created_at: { type: Date, default: Date.now },
+    last_used_at: { type: Date },                 // refreshed at most once per KEY_TOUCH_INTERVAL_MS
+    expires_at: { type: Date },                   // rejected from this time on (set by rotation or by an admin)
+    revoked_at: { type: Date },                   // rejected immediately once set
+    replaced_by: { type: String },                // key_id of the key that rotated this one out
+    _id: false
+  }],
+}, { timestamps: true });
+
+TenantSchema.index({ 'keys.key_hash': 1 }, { unique: true, sparse: true });
+
+export const TenantModel = mongoose.model('tenants', TenantSchema);
+export type Tenant = mongoose.InferSchemaType<typeof TenantSchema>;
@@ -0,0 +1,14 @@
+// src/models/TraitMemory.ts
+import mongoose from 'mongoose';
+
+// One trait value for one persona scope - same shape as a Supermemory trait memory
+const TraitMemorySchema = new mongoose.Schema({
+  custom_id: { type: String, unique: true, sparse: true },
+  container_tag: { type: String, index: true, required: true },
+  content: { type: String, required: true },
+  metadata: { type: Object, required: true }
+}, { timestamps: true, minimize: false });
+
+TraitMemorySchema.index({ container_tag: 1, 'metadata.type': 1, 'metadata.persona_scope': 1 });
+
+export const TraitMemoryModel = mongoose.model('trait_memories', TraitMemorySchema);
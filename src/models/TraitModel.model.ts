@@ -0,0 +1,15 @@
+// src/models/TraitModel.ts
+import mongoose from 'mongoose';
+
+// Per-game trait formulas; `model` is validated against TraitModelZ when loaded
+const TraitModelSchema = new mongoose.Schema({
+  game_id: { type: String, required: true },
+  version: { type: String, required: true },
+  active: { type: Boolean, default: true },
+  model: { type: Object, required: true }
+}, { timestamps: true });
+
+TraitModelSchema.index({ game_id: 1, version: 1 }, { unique: true });
+TraitModelSchema.index({ game_id: 1, active: 1, createdAt: -1 });
+
+export const TraitModelModel = mongoose.model('trait_models', TraitModelSchema);
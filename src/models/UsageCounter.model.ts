@@ -0,0 +1,28 @@
+// src/models/UsageCounter.ts
+import mongoose from 'mongoose';
+import { PLAYER_COUNTER_IDLE_MS } from '../usage/UsageStore.ts';
+
+// Rate-limit bucket and daily quota counters for one API key and route, or one session player's (USAGE_STORE=mongo)
+const UsageCounterSchema = new mongoose.Schema({
+  _id: { type: String }, // tenant_id:key_id:route[:player_id]
+  tenant_id: { type: String, required: true, index: true },
+  key_id: { type: String, required: true },
+  route: { type: String, required: true },
+  player_id: { type: String }, // signed session traffic only
+  tokens: { type: Number, required: true },
+  refilled_at: { type: Number, required: true },
+  day: { type: String, required: true },
+  day_count: { type: Number, default: 0 },
+  day_rejected: { type: Number, default: 0 },
+  total: { type: Number, default: 0 },
+  last_at: { type: Number, required: true },
+  version: { type: Number, default: 0 } // bumped on every change - compare-and-set guard
+}, { timestamps: true });
+
+// Session players' counters expire once idle (see PLAYER_COUNTER_IDLE_MS); key counters are kept
+UsageCounterSchema.index({ updatedAt: 1 }, {
+  expireAfterSeconds: PLAYER_COUNTER_IDLE_MS / 1000,
+  partialFilterExpression: { player_id: { $exists: true } },
+});
+
+export const UsageCounterModel = mongoose.model('usage_counters', UsageCounterSchema);
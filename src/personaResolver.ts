@@ -0,0 +1,108 @@
+// src/personaResolver.ts
+import type { PersonaSnapshot, Traits } from './types.ts';
+import type { PersonaStore, ScopeKey } from './memory/PersonaStore.ts';
+import type { TraitModel } from './traitModel.ts';
+import { decayedRuns, personaText, roundTraits } from './traitEngine.ts';
+import { traitDefaults } from './traitRegistry.ts';
+
+/** A stored persona considered by the resolver */
+export type ScopeSource = { key: ScopeKey; persona: PersonaSnapshot };
+
+export type ResolvedPersona = {
+  traits: Traits;
+  confidence: Record<string, number>;
+  sources: Array<ScopeKey & { weight: number; run_count: number; updated_at: string }>;
+};
+
+/** Runs of evidence behind a persona at `at`, after time decay (legacy personas count as one run) */
+function evidenceRuns(persona: PersonaSnapshot, model: TraitModel, at: string): number {
+  const state = persona.blend_state ?? { run_count: 1, effective_runs: 1, consistency: {} };
+  return decayedRuns(state, at, model);
+}
+
+/**
+ * Blend personas from several scopes into one.
+ * Each scope weighs `resolve.weights[scope] * runs / (runs + prior_runs)`, so a scope with a
+ * long, recent history outweighs a sparse one. Returns null when no source carries any weight.
+ */
+export function blendScopes(sources: ScopeSource[], model: TraitModel, at: string = new Date().toISOString()): ResolvedPersona | null {
+  const { prior_runs } = model.blend;
+  const weighted = sources.map(s => {
+    const runs = evidenceRuns(s.persona, model, at);
+    return { ...s, weight: model.resolve.weights[s.key.scope] * runs / (runs + prior_runs || 1) };
+  }).filter(s => s.weight > 0);
+
+  const total = weighted.reduce((sum, s) => sum + s.weight, 0);
+  if (total === 0) return null;
+
+  const defaults = traitDefaults(model);
+  const traits = {} as Traits;
+  const confidence: Record<string, number> = {};
+  for (const name of Object.keys(defaults)) {
+    let value = 0;
+    let conf = 0;
+    for (const s of weighted) {
+      // A scope saved before this trait existed contributes the trait's default, with no confidence
+      value += s.weight * (s.persona.traits[name] ?? defaults[name]!);
+      conf  += s.weight * (s.persona.confidence?.[name] ?? 0);
+    }
+    traits[name] = value / total;
+    confidence[name] = Number((conf / total).toFixed(2));
+  }
+
+  return {
+    traits: roundTraits(traits),
+    confidence,
+    sources: weighted.map(s => ({
+      ...s.key,
+      weight: Number((s.weight / total).toFixed(3)),
+      run_count: s.persona.blend_state?.run_count ?? 1,
+      updated_at: s.persona.updated_at,
+    })),
+  };
+}
+
+/** Scope keys a resolution draws from, most specific first */
+export function resolutionKeys(ids: { game_id?: string; genre_id?: string; platform_id?: string }): ScopeKey[] {
+  const keys: ScopeKey[] = [];
+  if (ids.game_id)     keys.push({ scope: 'game', game_id: ids.game_id });
+  if (ids.genre_id)    keys.push({ scope: 'genre', genre_id: ids.genre_id });
+  if (ids.platform_id) keys.push({ scope: 'platform', platform_id: ids.platform_id });
+  keys.push({ scope: 'global' });
+  return keys;
+}
+
+/**
+ * Resolve a player's persona for a game context by blending every matching scope.
+ * Falls back to the model's trait defaults when the player has no persona in any of them.
+ * Scopes `canRead` rejects are left out of the blend.
+ */
+export async function resolvePersona(
+  memory: PersonaStore,
+  params: { player_id: string; game_id?: string; genre_id?: string; platform_id?: string },
+  model: TraitModel,
+  canRead: (key: ScopeKey) => boolean = () => true
+) {
+  const keys = resolutionKeys(params).filter(canRead);
+  const found = await Promise.all(keys.map(key => memory.fetchLatestPersona(params.player_id, key)));
+  const sources: ScopeSource[] = [];
+  keys.forEach((key, i) => {
+    const persona = found[i]?.persona;
+    if (persona) sources.push({ key, persona });
+  });
+
+  const now = new Date().toISOString();
+  const resolved = blendScopes(sources, model, now);
+  const traits = resolved?.traits ?? traitDefaults(model);
+  const confidence = resolved?.confidence ?? Object.fromEntries(Object.keys(traits).map(t => [t, 0]));
+
+  const persona: PersonaSnapshot = {
+    player_id: params.player_id,
+    traits,
+    persona_text: personaText(traits, model),
+    top_signals: [],
+    updated_at: sources.reduce((latest, s) => s.persona.updated_at > latest ? s.persona.updated_at : latest, '') || now,
+    confidence,
+  };
+  return { persona, sources: resolved?.sources ?? [] };
+}
@@ -0,0 +1,124 @@
+// src/playerDataService.ts
+import type { PersonaItem, PersonaStore } from './memory/PersonaStore.ts';
+import { RunModel } from './models/Run.model.ts';
+import { PersonaHistoryModel } from './models/PersonaHistory.model.ts';
+import { IngestJobModel } from './models/IngestJob.model.ts';
+import { DeadLetterModel } from './models/DeadLetter.model.ts';
+import { PlayerOwnerModel } from './models/PlayerOwner.model.ts';
+import { PlayerLockModel } from './models/PlayerLock.model.ts';
+import { PlayerDeletionModel } from './models/PlayerDeletion.model.ts';
+import { withPlayerLock } from './playerLock.ts';
+import { purgePlayerLogs } from './debugLogger.ts';
+import { personaVisibility } from './tenantService.ts';
+import type { TenantContext } from './tenantService.ts';
+
+// Personas per fetchByFilters page while exporting
+const EXPORT_PAGE_SIZE = 100;
+
+/** Every persona of the player the tenant may read, all scopes, following cursors to the end */
+async function allPersonas(memory: PersonaStore, tenant: TenantContext, playerId: string): Promise<PersonaItem[]> {
+  const items: PersonaItem[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await memory.fetchByFilters({
+      player_id: playerId,
+      scope: 'any',
+      limit: EXPORT_PAGE_SIZE,
+      sort: 'scope',
+      order: 'asc',
+      ...(cursor && { cursor }),
+      ...personaVisibility(tenant),
+      includeContent: true,
+    });
+    items.push(...page.items);
+    cursor = page.next_cursor;
+  } while (cursor);
+  return items;
+}
+
+/** Run log filter: runs of the tenant's games only */
+function visibleRuns(tenant: TenantContext, playerId: string): Record<string, any> {
+  if (tenant.game_ids.includes('*')) return { player_id: playerId };
+  return { player_id: playerId, game_id: { $in: tenant.game_ids } };
+}
+
+/** Persona history filter: points of the scopes the tenant may read, game points of its games only */
+function visibleHistory(tenant: TenantContext, playerId: string): Record<string, any> {
+  const allGames = tenant.game_ids.includes('*');
+  const visible: Record<string, any>[] = [
+    { persona_scope: { $in: tenant.scopes.filter(scope => scope !== 'game' || allGames) } },
+  ];
+  if (!allGames && tenant.scopes.includes('game')) {
+    visible.push({ persona_scope: 'game', scope_id: { $in: tenant.game_ids } });
+  }
+  return { player_id: playerId, $or: visible };
+}
+
+/**
+ * Everything stored for a player that the tenant may read: its games' runs, and the personas and
+ * persona history of its scopes and games - the same restrictions as the read endpoints
+ */
+export async function exportPlayer(memory: PersonaStore, tenant: TenantContext, playerId: string) {
+  const [runs, history, personas] = await Promise.all([
+    RunModel.find(visibleRuns(tenant, playerId)).sort({ completed_at: 1, run_index: 1 }).lean(),
+    PersonaHistoryModel.find(visibleHistory(tenant, playerId)).sort({ completed_at: 1, run_index: 1 }).lean(),
+    allPersonas(memory, tenant, playerId),
+  ]);
+
+  return {
+    schema_version: '1.0',
+    player_id: playerId,
+    exported_at: new Date().toISOString(),
+    runs: runs.map(({ _id, __v, ...run }) => ({ run_id: String(_id), ...run })),
+    personas,
+    history: history.map(({ _id, __v, ...point }) => point),
+  };
+}
+
+/**
+ * Erase a player: their tenant ownership, runs, persona history, queued jobs and dead letters,
+ * every memory under their container tag, and the debug logs naming them. The data is deleted
+ * under the player's write lock, ownership and run log first: a save claimed before the erasure
+ * and still waiting for the lock finds its run gone and is rejected (see ingestService). An audit
+ * record (without player data) is written first and completed - or marked failed - at the end.
+ */
+export async function deletePlayer(memory: PersonaStore, playerId: string, requestedBy: TenantContext, reason?: string) {
+  const audit = await PlayerDeletionModel.create({
+    player_id: playerId,
+    requested_by: { tenant_id: requestedBy.id, studio: requestedBy.studio, key_id: requestedBy.key_id },
+    ...(reason && { reason }),
+  });
+
+  try {
+    const stored = await withPlayerLock({ player_id: playerId, completed_at: new Date().toISOString(), run_index: 0 }, async () => {
+      await PlayerOwnerModel.deleteOne({ _id: playerId });
+      const [runs, history, jobs, deadLetters] = await Promise.all([
+        RunModel.deleteMany({ player_id: playerId }),
+        PersonaHistoryModel.deleteMany({ player_id: playerId }),
+        IngestJobModel.deleteMany({ player_id: playerId }),
+        DeadLetterModel.deleteMany({ player_id: playerId }),
+      ]);
+      const memories = await memory.deletePlayerMemories(playerId);
+      return {
+        memories,
+        runs: runs.deletedCount,
+        history: history.deletedCount,
+        ingest_jobs: jobs.deletedCount,
+        dead_letters: deadLetters.deletedCount,
+      };
+    });
+    // The lease document is only kept while someone holds or waits for it
+    await PlayerLockModel.deleteOne({ _id: playerId, holder: null, waiters: { $size: 0 } });
+    // Paths and queries name the player; with DEBUG_API_BODIES, so do save bodies and export bundles.
+    // Logs aren't written under the player lock, so the scan doesn't hold it
+    const deleted = { ...stored, debug_logs: await purgePlayerLogs(playerId) };
+
+    audit.set({ status: 'completed', deleted, completed_at: new Date() });
+    await audit.save();
+    return { deletion_id: String(audit._id), player_id: playerId, deleted, completed_at: audit.completed_at };
+  } catch (e: any) {
+    audit.set({ status: 'failed', error: e.message });
+    await audit.save().catch(() => {});
+    throw e;
+  }
+}
@@ -0,0 +1,132 @@
+// src/playerLock.ts
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import { PlayerLockModel } from './models/PlayerLock.model.ts';
+import { ENV } from './config.ts';
+import type { ServerInput } from './types.ts';
+
+const POLL_MS = 100;
+// A waiter outlives an abandoned lease by at least this much, so a crashed holder delays saves but never fails them
+const TAKEOVER_MARGIN_MS = 2000;
+const PROCESS_ID = `${hostname()}:${process.pid}`;
+
+/** The player's lease could not be acquired within PLAYER_LOCK_WAIT_MS (at least the TTL plus a margin) */
+export class PlayerLockTimeoutError extends Error {
+  constructor(readonly playerId: string) {
+    super(`Timed out waiting for the write lock of player ${playerId}`);
+    this.name = 'PlayerLockTimeoutError';
+  }
+}
+
+/** Passed to the locked function */
+export type LockGrant = {
+  handoff: boolean; // the previous holder was another process - per-process caches may be stale
+};
+
+/** A held player lock; release it when the write is done */
+export type PlayerLock = LockGrant & {
+  player_id: string;
+  release(): Promise<void>;
+};
+
+type Waiter = { id: string; completed_at: Date; run_index: number; seen_at: Date };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Earlier completed_at first, then lower run_index
+const runsBefore = (a: Waiter, b: Waiter) =>
+  a.completed_at.getTime() - b.completed_at.getTime() || a.run_index - b.run_index;
+
+/**
+ * Wait for the player's write lease. Saves waiting together are admitted in
+ * completed_at / run_index order. The lease is renewed until released and expires after
+ * PLAYER_LOCK_TTL_MS if the process dies. Throws PlayerLockTimeoutError after PLAYER_LOCK_WAIT_MS.
+ */
+export async function acquirePlayerLock(run: Pick<ServerInput, 'player_id' | 'completed_at' | 'run_index'>): Promise<PlayerLock> {
+  const playerId = run.player_id;
+  const me = randomUUID();
+  const ttl = ENV.PLAYER_LOCK_TTL_MS;
+  const deadline = Date.now() + Math.max(ENV.PLAYER_LOCK_WAIT_MS, ttl + TAKEOVER_MARGIN_MS);
+  const self: Waiter = { id: me, completed_at: new Date(run.completed_at), run_index: run.run_index, seen_at: new Date() };
+
+  await PlayerLockModel.updateOne(
+    { _id: playerId },
+    { $push: { waiters: self }, $inc: { version: 1 } },
+    { upsert: true },
+  );
+
+  let handoff = false;
+  try {
+    for (;;) {
+      const now = new Date();
+      const lock = await PlayerLockModel.findById(playerId).lean();
+      const free = !lock?.holder || !lock.expires_at || lock.expires_at < now;
+      const live = (lock?.waiters ?? [])
+        .filter(w => w.id === me || (w.seen_at && now.getTime() - w.seen_at.getTime() < ttl)) as Waiter[];
+      const first = [...live].sort(runsBefore)[0];
+
+      if (lock && free && first?.id === me) {
+        // Compare-and-set on version: only one waiter can win a given lock state
+        const won = await PlayerLockModel.updateOne(
+          { _id: playerId, version: lock.version },
+          {
+            $set: { holder: me, expires_at: new Date(now.getTime() + ttl), waiters: live.filter(w => w.id !== me) },
+            $inc: { version: 1 },
+          },
+        );
+        if (won.modifiedCount === 1) {
+          // Taking over an expired lease: the dead holder may have written part of its save
+          handoff = !!lock.holder || (!!lock.last_owner && lock.last_owner !== PROCESS_ID);
+          break;
+        }
+        continue;
+      }
+
+      if (Date.now() > deadline) throw new PlayerLockTimeoutError(playerId);
+      // Heartbeat so other waiters don't drop us as abandoned
+      await PlayerLockModel.updateOne(
+        { _id: playerId, 'waiters.id': me },
+        { $set: { 'waiters.$.seen_at': now } },
+      );
+      await sleep(POLL_MS);
+    }
+  } catch (e) {
+    await PlayerLockModel.updateOne({ _id: playerId }, { $pull: { waiters: { id: me } }, $inc: { version: 1 } }).catch(() => {});
+    throw e;
+  }
+
+  const renew = setInterval(() => {
+    PlayerLockModel.updateOne(
+      { _id: playerId, holder: me },
+      { $set: { expires_at: new Date(Date.now() + ttl) } },
+    ).catch(() => {});
+  }, Math.max(1000, ttl / 3));
+
+  return {
+    player_id: playerId,
+    handoff,
+    async release() {
+      clearInterval(renew);
+      await PlayerLockModel.updateOne(
+        { _id: playerId, holder: me },
+        { $set: { holder: null, expires_at: null, last_owner: PROCESS_ID }, $inc: { version: 1 } },
+      ).catch(() => {});
+    },
+  };
+}
+
+/**
+ * Run `fn` while holding the player's write lease, so concurrent saves for one player never
+ * blend against the same stale persona (see acquirePlayerLock).
+ */
+export async function withPlayerLock<T>(
+  run: Pick<ServerInput, 'player_id' | 'completed_at' | 'run_index'>,
+  fn: (grant: LockGrant) => Promise<T>
+): Promise<T> {
+  const lock = await acquirePlayerLock(run);
+  try {
+    return await fn({ handoff: lock.handoff });
+  } finally {
+    await lock.release();
+  }
+}
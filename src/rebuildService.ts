@@ -0,0 +1,95 @@
+// src/rebuildService.ts
+import type { PersonaStore, ScopeKey, ScopeSnapshot } from './memory/PersonaStore.ts';
+import { fetchPlayerRuns, listPlayersWithRuns } from './runLog.ts';
+import { replayPlan } from './ingestService.ts';
+import { recordHistoryBatch } from './historyService.ts';
+import { withPlayerLock } from './playerLock.ts';
+import { logger } from './logger.ts';
+
+/** One trait's stored value (null if the scope had none) and its rebuilt value */
+export type TraitChange = { from: number | null; to: number };
+
+export type ScopeDiff = ScopeKey & { changes: Record<string, TraitChange> };
+
+export type PlayerRebuild = {
+  player_id: string;
+  dry_run: boolean;
+  runs: number;
+  scopes: number;
+  memories_written: number;
+  diffs: ScopeDiff[]; // only scopes with at least one changed trait
+};
+
+/** Traits whose rebuilt value differs from the stored one, per scope */
+export function traitDiffs(snapshots: ScopeSnapshot[]): ScopeDiff[] {
+  const diffs: ScopeDiff[] = [];
+  for (const { key, traits, previous } of snapshots) {
+    const changes: Record<string, TraitChange> = {};
+    for (const [name, to] of Object.entries(traits)) {
+      const from = previous?.[name] ?? null;
+      if (from !== to) changes[name] = { from, to };
+    }
+    if (Object.keys(changes).length > 0) diffs.push({ ...key, changes });
+  }
+  return diffs;
+}
+
+/**
+ * Recompute every persona scope of a player by replaying their saved runs from the run log
+ * through the current trait models. With `dryRun`, only reports what would change.
+ */
+export async function rebuildPlayer(memory: PersonaStore, playerId: string, options: { dryRun?: boolean } = {}): Promise<PlayerRebuild> {
+  const dryRun = options.dryRun ?? false;
+
+  const rebuild = async (): Promise<PlayerRebuild> => {
+    const runs = await fetchPlayerRuns(playerId);
+    if (runs.length === 0) {
+      return { player_id: playerId, dry_run: dryRun, runs: 0, scopes: 0, memories_written: 0, diffs: [] };
+    }
+
+    const { steps, snapshots, memories_created } = await memory.replayRuns(playerId, await replayPlan(runs), { dryRun });
+    // The whole time series was recomputed, so rewrite it too
+    if (!dryRun) await recordHistoryBatch(steps);
+
+    return {
+      player_id: playerId,
+      dry_run: dryRun,
+      runs: runs.length,
+      scopes: snapshots.length,
+      memories_written: memories_created,
+      diffs: traitDiffs(snapshots),
+    };
+  };
+
+  if (dryRun) return rebuild();
+  // Queue behind any save in flight for the player, then hold off new ones until the rewrite is done
+  return withPlayerLock({ player_id: playerId, completed_at: new Date().toISOString(), run_index: 0 }, rebuild);
+}
+
+/**
+ * rebuildPlayer for the given players or, without `playerIds`, every player in the run log.
+ * Players are rebuilt one at a time; a failure is reported and the rest carry on.
+ */
+export async function rebuildPlayers(memory: PersonaStore, options: { playerIds?: string[]; dryRun?: boolean } = {}) {
+  const playerIds = options.playerIds ?? await listPlayersWithRuns();
+  const players: PlayerRebuild[] = [];
+  const failed: Array<{ player_id: string; error: string }> = [];
+
+  for (const playerId of playerIds) {
+    try {
+      const result = await rebuildPlayer(memory, playerId, { ...(options.dryRun !== undefined && { dryRun: options.dryRun }) });
+      players.push(result);
+      logger.info('Persona rebuild: Player done', {
+        player_id: playerId,
+        dry_run: result.dry_run,
+        runs: result.runs,
+        changed_scopes: result.diffs.length,
+      });
+    } catch (e: any) {
+      failed.push({ player_id: playerId, error: e.message });
+      logger.error('Persona rebuild: Player failed', { player_id: playerId, error: e.message });
+    }
+  }
+
+  return { dry_run: options.dryRun ?? false, players, failed };
+}
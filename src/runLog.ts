@@ -0,0 +1,206 @@
+// src/runLog.ts
+import { RunModel } from './models/Run.model.ts';
+import type { Run, RunDocument } from './models/Run.model.ts';
+import type { ServerInput } from './types.ts';
+import { cancelQueuedJob } from './ingestQueue.ts';
+import { ENV } from './config.ts';
+
+// A 'processing' run older than this is assumed to belong to a crashed request and may be retaken
+const STALE_CLAIM_MS = 2 * 60 * 1000;
+
+/**
+ * Result of claiming a run for ingestion:
+ * - new:         first time we see this run, caller must save it
+ * - retry:       an earlier attempt failed or went stale, caller must save it
+ * - replay:      already saved, `run.save_result` holds the original response
+ * - in_progress: another request is saving it right now, or it is waiting in the ingest queue
+ * - key_conflict: the Idempotency-Key was already used for a different run
+ */
+export type RunClaim =
+  | { kind: 'new' | 'retry' | 'replay' | 'in_progress' | 'key_conflict'; run: RunDocument };
+
+const isDuplicateKeyError = (e: any) => e?.code === 11000;
+
+const sameRun = (run: RunDocument, p: ServerInput) =>
+  run.player_id === p.player_id && run.session_id === p.session_id && run.run_index === p.run_index;
+
+/**
+ * Persist an accepted run to the `runs` collection and claim it for ingestion.
+ * This is the durable event log: personas can be rebuilt from it if Supermemory loses data,
+ * so it is written before any Supermemory call. Runs are unique on
+ * player_id + session_id + run_index (and on the optional Idempotency-Key), which is what
+ * makes client retries safe.
+ */
+export async function claimRun(p: ServerInput, idempotencyKey?: string): Promise<RunClaim> {
+  try {
+    const run = await RunModel.create({
+      player_id: p.player_id,
+      session_id: p.session_id,
+      run_index: p.run_index,
+      completed_at: p.completed_at,
+      schema_version: p.schema_version,
+      game_id: p.game_context?.game_id,
+      result: p.run_outcome.result,
+      path: p.run_outcome.path,
+      stats_json: p.stats,
+      config_json: p.config_used,
+      events_digest: p.events_digest ?? [],
+      game_context: p.game_context ?? {},
+      performance_summary: p.performance_summary,
+      ...(idempotencyKey && { idempotency_key: idempotencyKey }),
+    });
+    return { kind: 'new', run };
+  } catch (e: any) {
+    if (!isDuplicateKeyError(e)) throw e;
+  }
+
+  // Duplicate - find the original by idempotency key first, then by natural key
+  const byKey = idempotencyKey ? await RunModel.findOne({ idempotency_key: idempotencyKey }) : null;
+  if (byKey && !sameRun(byKey, p)) return { kind: 'key_conflict', run: byKey };
+
+  const existing = byKey ?? await RunModel.findOne({
+    player_id: p.player_id,
+    session_id: p.session_id,
+    run_index: p.run_index,
+  });
+  if (!existing) throw new Error('Duplicate run reported but original not found');
+
+  if (existing.ingest_status === 'saved') return { kind: 'replay', run: existing };
+
+  // Take over failed or stale attempts atomically so two retries can't both proceed
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS);
+
+  // Left queued before a switch to INGEST_MODE=sync: no worker will ever finish it, so it is
+  // taken over like a stale attempt once its job is withdrawn from the queue
+  const staleQueued = ENV.INGEST_MODE === 'sync'
+    && existing.ingest_status === 'queued'
+    && existing.ingest_started_at < staleBefore;
+  if (staleQueued && !await cancelQueuedJob(existing._id)) return { kind: 'in_progress', run: existing };
+
+  const retaken = await RunModel.findOneAndUpdate(
+    {
+      _id: existing._id,
+      $or: [
+        { ingest_status: 'failed' },
+        { ingest_status: 'processing', ingest_started_at: { $lt: staleBefore } },
+        ...(staleQueued ? [{ ingest_status: 'queued' }] : []),
+      ],
+    },
+    { $set: { ingest_status: 'processing', ingest_started_at: new Date() } },
+    { new: true },
+  );
+  return retaken ? { kind: 'retry', run: retaken } : { kind: 'in_progress', run: existing };
+}
+
+/**
+ * Idempotency-Key as stored on the run: namespaced by tenant, so two studios using the same
+ * key never collide. Legacy keys keep the bare key, as stored before tenants existed.
+ */
+export function scopedIdempotencyKey(tenant: { id: string; legacy: boolean }, key: string): string {
+  return tenant.legacy ? key : `${tenant.id}:${key}`;
+}
+
+/**
+ * Record that the run is about to be blended. Returns true when an earlier attempt already got
+ * this far: it may have written personas and then failed to mark the run saved, so the caller
+ * must rebuild by replay instead of blending the run a second time.
+ */
+export async function markRunApplying(runId: unknown): Promise<boolean> {
+  const before = await RunModel.findOneAndUpdate(
+    { _id: runId },
+    { $set: { apply_started_at: new Date() } },
+    { new: false, projection: { apply_started_at: 1 } },
+  ).lean();
+  return !!before?.apply_started_at;
+}
+
+/** Store the response of a successful save so replays can return it verbatim */
+export async function markRunSaved(runId: unknown, saveResult: unknown) {
+  await RunModel.updateOne({ _id: runId }, { $set: { ingest_status: 'saved', save_result: saveResult } });
+}
+
+/** Hand the run to the ingest queue (INGEST_MODE=async); retries see it as in progress until the job ends */
+export async function markRunQueued(runId: unknown) {
+  await RunModel.updateOne({ _id: runId }, { $set: { ingest_status: 'queued' } });
+}
+
+/**
+ * Release the claim so a client retry can try again immediately.
+ * `written: false` when the attempt certainly wrote nothing (e.g. it never got the player lock).
+ */
+export async function markRunFailed(runId: unknown, options: { written?: boolean } = {}) {
+  await RunModel.updateOne({ _id: runId }, {
+    $set: { ingest_status: 'failed' },
+    ...(options.written === false && { $unset: { apply_started_at: 1 } }),
+  });
+}
+
+/** Whether the run is still in the run log - erasing its player deletes it, even mid-save */
+export async function isRunLogged(p: Pick<ServerInput, 'player_id' | 'session_id' | 'run_index'>): Promise<boolean> {
+  return await RunModel.exists({ player_id: p.player_id, session_id: p.session_id, run_index: p.run_index }) !== null;
+}
+
+/** Chronological run order: completed_at, then run_index */
+export function compareRuns(a: Pick<ServerInput, 'completed_at' | 'run_index'>, b: Pick<ServerInput, 'completed_at' | 'run_index'>) {
+  return Date.parse(a.completed_at) - Date.parse(b.completed_at) || a.run_index - b.run_index;
+}
+
+/**
+ * True when the player already has a saved run that completed after this one, i.e. blending
+ * this run on top of the stored personas would apply it out of order.
+ * completed_at is stored as given (with offsets), so it is compared as a date, not a string.
+ */
+export async function hasLaterSavedRun(p: ServerInput): Promise<boolean> {
+  const completedAt = new Date(p.completed_at);
+  const later = await RunModel.exists({
+    player_id: p.player_id,
+    ingest_status: 'saved',
+    $nor: [{ session_id: p.session_id, run_index: p.run_index }],
+    $expr: {
+      $or: [
+        { $gt: [{ $toDate: '$completed_at' }, completedAt] },
+        { $and: [{ $eq: [{ $toDate: '$completed_at' }, completedAt] }, { $gt: ['$run_index', p.run_index] }] },
+      ],
+    },
+  });
+  return later !== null;
+}
+
+/** The ServerInput a stored run was saved from */
+export function runToServerInput(run: Run): ServerInput {
+  const ctx = run.game_context ?? {};
+  return {
+    schema_version: run.schema_version as ServerInput['schema_version'],
+    player_id: run.player_id,
+    session_id: run.session_id,
+    run_index: run.run_index,
+    completed_at: run.completed_at,
+    game_context: { ...ctx, ...(run.game_id && !ctx.game_id && { game_id: run.game_id }) },
+    run_outcome: { result: run.result, path: run.path },
+    stats: run.stats_json as ServerInput['stats'],
+    events_digest: run.events_digest as NonNullable<ServerInput['events_digest']>,
+    config_used: run.config_json as ServerInput['config_used'],
+    ...(run.performance_summary !== undefined && { performance_summary: run.performance_summary }),
+  };
+}
+
+/**
+ * A player's saved runs (plus `include`, the runs being saved) as ServerInputs in
+ * chronological order - the input for rebuilding personas from the run log.
+ */
+export async function fetchPlayerRuns(playerId: string, include: ServerInput[] = []): Promise<ServerInput[]> {
+  const runs = await RunModel.find({ player_id: playerId, ingest_status: 'saved' })
+    .select('-save_result')
+    .lean();
+  const inputs = runs.map(run => runToServerInput(run as Run));
+  for (const p of include) {
+    if (!inputs.some(r => r.session_id === p.session_id && r.run_index === p.run_index)) inputs.push(p);
+  }
+  return inputs.sort(compareRuns);
+}
+
+/** Players with at least one saved run, sorted */
+export async function listPlayersWithRuns(): Promise<string[]> {
+  const players: string[] = await RunModel.distinct('player_id', { ingest_status: 'saved' });
+  return players.sort();
+}
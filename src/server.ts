@@ -1,21 +1,42 @@
 // src/server.ts (only showing the parts that change)
 import express from "express";
+import { z } from "zod";
 import { ENV } from "./config.ts";
 import { connectMongo } from "./mongo.ts";
-import { RunModel } from "./models/Run.model.ts";
-import { ServerInputZ } from "./types.ts";
-import type { ServerInput, Traits, PersonaSnapshot, Mode } from "./types.ts";
-import { computeTraits, personaText, topSignals, generateTraitExplanations } from "./traitEngine.ts";
+import { claimRun, markRunApplying, markRunFailed, markRunQueued, markRunSaved, scopedIdempotencyKey } from "./runLog.ts";
+import type { RunClaim } from "./runLog.ts";
+import { applyBatch, applyRun, normalizeCustomMetrics, RunWithdrawnError, serverTiming } from "./ingestService.ts";
+import { enqueueRun, findJobForRun, getJob, jobStatus } from "./ingestQueue.ts";
+import { startIngestWorker } from "./ingestWorker.ts";
+import { PlayerLockTimeoutError } from "./playerLock.ts";
+import { fetchHistory } from "./historyService.ts";
+import { resolutionKeys, resolvePersona } from "./personaResolver.ts";
+import { rebuildPlayers } from "./rebuildService.ts";
+import { loadTraitModel, TraitModelUnavailableError } from "./traitModelLoader.ts";
+import { traitDefaults } from "./traitRegistry.ts";
+import { KnobsZ, ModeZ, ServerInputZ } from "./types.ts";
+import type { ServerInput, Traits } from "./types.ts";
+import { DEFAULT_TRAITS } from "./traitEngine.ts";
 import { computeKnobs } from "./policyService.ts";
-import { SupermemoryStore } from "./memory/SupermemoryStore.ts";
+import { createPersonaStore } from "./memory/index.ts";
+import type { ScopeKey } from "./memory/PersonaStore.ts";
+import { decodePersonaCursor } from "./memory/TraitMemoryStore.ts";
 import { logger } from "./logger.ts";
 import { logApiCall } from "./debugLogger.ts";
-import { requireApiKey } from "./middleware/auth.ts";
+import { requireAdminKey, requireApiKey, requirePermission } from "./middleware/auth.ts";
+import { rateLimiter } from "./middleware/rateLimit.ts";
+import { issueSession } from "./sessionService.ts";
+import { deletePlayer, exportPlayer } from "./playerDataService.ts";
+import { createUsageStore } from "./usage/index.ts";
+import { RATE_LIMITED_ROUTES, usageReport } from "./usageService.ts";
+import { issueKey, KeyRevokedError, listKeys, revokeKey, rotateKey, setKeyExpiry } from "./apiKeyService.ts";
+import { authorizePlayerWrite, authorizeRunWrite, createTenant, listTenants, provisionPlayers, releasePlayer, setTenantLimits, canReadKey, canReadMetadata, canReadScope, canUseGame, personaVisibility, playerOwnership } from "./tenantService.ts";
 
 const app = express();
 
 // Parse JSON first so we can access req.body in logging middleware
-app.use(express.json({ limit: "1mb" }));
+// (the raw bytes are kept for signed-request checks)
+app.use(express.json({ limit: "1mb", verify: (req, res, buf) => { (req as express.Request).rawBody = buf; } }));
 
 // Logging middleware - log all incoming requests (after JSON parsing)
 app.use((req, res, next) => {
@@ -91,7 +112,10 @@ app.use((req, res, next) => {
   next();
 });
 
-const memory = new SupermemoryStore();
+const memory = createPersonaStore();
+// Per-key token buckets and daily quotas, by route (see usageService.RATE_LIMITED_ROUTES)
+const usage = createUsageStore();
+const limit = rateLimiter(usage);
 
 // Health check endpoint (public, no auth required)
 app.get('/health', (req, res) => {
@@ -99,7 +123,13 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// API key authentication middleware - applies to all routes except /health
+// /admin routes live on their own router, guarded as a whole by an admin key (ADMIN_API_KEYS).
+// Mounted before API key auth, and matched exactly like the routes themselves (case-insensitively)
+const admin = express.Router();
+admin.use(requireAdminKey);
+app.use('/admin', admin);
+
+// API key authentication middleware - applies to all other routes except /health
 app.use((req, res, next) => {
   // Skip auth for health check
   if (req.path === '/health') {
@@ -110,61 +140,248 @@ app.use((req, res, next) => {
 
 // --- Supermemory v3 routes (generic, filterable) ---
 
+// The game's trait model could not be read - retry later rather than blend or default with the wrong one
+function sendModelUnavailable(res: express.Response, e: TraitModelUnavailableError) {
+  logger.warn('Trait model unavailable', { game_id: e.gameId, error: e.message });
+  return res.status(503).set('Retry-After', '5').json({ error: 'trait_model_unavailable', message: e.message });
+}
+
+// POST /sm/sessions
+// Body: { player_id, ttl_s? } - server-to-server: issue a short-lived signed session for one player,
+// so game clients never hold an API key. Requires: tenant X-API-Key with write permission
+const SessionBodyZ = z.object({
+  player_id: z.string().min(1),
+  ttl_s: z.number().int().min(60).max(ENV.SESSION_MAX_TTL_S).optional(),
+});
+
+app.post('/sm/sessions', requirePermission('write'), limit('sessions'), async (req, res) => {
+  const tenant = req.tenant!;
+  if (!ENV.SESSION_SECRET) {
+    return res.status(503).json({ error: 'sessions_disabled', message: 'Session tokens are not enabled on this server (SESSION_SECRET)' });
+  }
+  if (tenant.legacy || tenant.session_player !== undefined) {
+    return res.status(403).json({ error: 'forbidden', message: 'Sessions are issued with a tenant API key' });
+  }
+  const parsed = SessionBodyZ.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logger.warn('POST /sm/sessions: Invalid body', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_payload',
+      details: parsed.error.flatten(),
+    });
+  }
+  const { player_id, ttl_s } = parsed.data;
+
+  try {
+    // Sessions are only issued for players provisioned for the studio, like saves
+    const denied = await authorizePlayerWrite(tenant, player_id);
+    if (denied) {
+      logger.warn('POST /sm/sessions: Forbidden', { player_id, studio: tenant.studio, error: denied.error });
+      return res.status(403).json(denied);
+    }
+    const session = issueSession(tenant, player_id, ttl_s);
+    logger.info('POST /sm/sessions: Issued', { player_id, studio: tenant.studio, expires_at: session.expires_at });
+    res.status(201).json(session);
+  } catch (e: any) {
+    logger.error('POST /sm/sessions: Error', { error: e.message, stack: e.stack, player_id });
+    res.status(500).json({ error: 'session_issue_failed', message: e.message });
+  }
+});
+
 // POST /sm/save
 // Body: { serverInput, game_id?: string, genres?: string[], platforms?: string[] }
-// Requires: X-API-Key header
-app.post('/sm/save', async (req, res) => {
+// Requires: X-API-Key header with write permission, allowed to use the run's game
+app.post('/sm/save', requirePermission('write'), limit('save'), async (req, res) => {
     try {
-      const { serverInput } = req.body || {};
-      if (!serverInput) {
+      if (!req.body?.serverInput) {
         logger.warn('POST /sm/save: Missing serverInput in request body');
         return res.status(400).json({ error: 'serverInput required' });
       }
 
+      const parsed = ServerInputZ.safeParse(req.body.serverInput);
+      if (!parsed.success) {
+        logger.warn('POST /sm/save: Invalid serverInput', {
+          player_id: req.body.serverInput.player_id,
+          issues: parsed.error.issues.length,
+        });
+        return res.status(400).json({
+          error: 'invalid_payload',
+          details: parsed.error.flatten(),
+        });
+      }
+
+      // Game-defined metrics depend on the game's trait model, so they are checked separately
+      const normalized = await normalizeCustomMetrics(parsed.data);
+      if (!normalized.success) {
+        logger.warn('POST /sm/save: Invalid custom metrics', {
+          player_id: parsed.data.player_id,
+          game_id: parsed.data.game_context?.game_id,
+        });
+        return res.status(400).json({
+          error: 'invalid_custom_metrics',
+          details: normalized.error.flatten(),
+        });
+      }
+      const serverInput: ServerInput = normalized.data;
+
       logger.info('POST /sm/save', {
         player_id: serverInput.player_id,
         run_index: serverInput.run_index,
         game_id: serverInput.game_context?.game_id,
       });
+      // The key must cover the run's game, and the player must be provisioned for the studio
+      let denied;
+      try {
+        denied = await authorizeRunWrite(req.tenant!, serverInput);
+      } catch (e: any) {
+        logger.error('POST /sm/save: Ownership check failed', {
+          error: e.message,
+          player_id: serverInput.player_id,
+        });
+        return res.status(500).json({ error: 'auth_unavailable', message: e.message });
+      }
+      if (denied) {
+        logger.warn('POST /sm/save: Forbidden', {
+          player_id: serverInput.player_id,
+          studio: req.tenant!.studio,
+          error: denied.error,
+        });
+        return res.status(403).json(denied);
+      }
   
-      // new context extraction
-      const ctx = serverInput.game_context || {};
-      const game_id = ctx.game_id;
-      const genres = Array.isArray(ctx.genre_ids) ? ctx.genre_ids : [];
-      const platforms = Array.isArray(ctx.platform_ids) ? ctx.platform_ids : [];
-  
-      // Fetch previous traits BEFORE saving (needed for trait explanations)
-      const prevGlobal = await memory.fetchLatestPersona(serverInput.player_id, { scope: 'global' });
-      const defaultTraits = {
-        aggression: 0.5, stealth: 0.5, curiosity: 0.5,
-        puzzle_affinity: 0.5, independence: 0.5, resilience: 0.5, goal_focus: 0.5,
-      };
-      const prevTraits = prevGlobal?.persona?.traits;
-      const newTraits = computeTraits(serverInput.stats, prevGlobal?.persona?.traits || defaultTraits);
-      const trait_explanations = generateTraitExplanations(serverInput.stats, prevGlobal?.persona?.traits, newTraits);
-  
-      const result = await memory.saveFromServerInput(serverInput, {
-        game_id,
-        genres,
-        platforms,
-        extraMeta: {
-          completed_at: serverInput.completed_at,
-          build_version: ctx.build_version,
-          game_title: ctx.game_title,
-        },
-      });
+      // Durable run log first - Supermemory is not our source of truth.
+      // The unique run key doubles as the idempotency check for client retries.
+      const keyHeader = req.get('Idempotency-Key');
+      const idempotencyKey = keyHeader ? scopedIdempotencyKey(req.tenant!, keyHeader) : undefined;
+      let claim: RunClaim;
+      try {
+        claim = await claimRun(serverInput, idempotencyKey);
+      } catch (e: any) {
+        logger.error('POST /sm/save: Failed to persist run', {
+          error: e.message,
+          player_id: serverInput.player_id,
+        });
+        return res.status(500).json({
+          error: 'run_persist_failed',
+          message: e.message,
+        });
+      }
 
-      logger.info('POST /sm/save: Success', {
-        player_id: serverInput.player_id,
-        user_node: result.user_node,
-        memories_created: result.memories_created,
-      });
-  
-      res.json({
-        ...result,
-        trait_explanations,
-      });
+      if (claim.kind === 'replay') {
+        logger.info('POST /sm/save: Replaying saved run', {
+          player_id: serverInput.player_id,
+          run_index: serverInput.run_index,
+        });
+        res.set('Idempotent-Replayed', 'true');
+        return res.json(claim.run.save_result);
+      }
+      if (claim.kind === 'in_progress' && ENV.INGEST_MODE === 'async') {
+        // Waiting in the queue - point the client at the existing job
+        const job = await findJobForRun(claim.run._id);
+        if (job) {
+          return res.status(202).location(`/sm/jobs/${job._id}`).json({
+            job_id: String(job._id),
+            status: job.status,
+            status_url: `/sm/jobs/${job._id}`,
+          });
+        }
+      }
+      if (claim.kind === 'in_progress') {
+        logger.warn('POST /sm/save: Run already being saved', {
+          player_id: serverInput.player_id,
+          run_index: serverInput.run_index,
+        });
+        return res.status(409).json({
+          error: 'run_in_progress',
+          message: 'This run is already being saved; retry shortly',
+        });
+      }
+      if (claim.kind === 'key_conflict') {
+        logger.warn('POST /sm/save: Idempotency-Key reused for a different run', {
+          player_id: serverInput.player_id,
+        });
+        return res.status(422).json({
+          error: 'idempotency_key_reused',
+          message: 'Idempotency-Key was already used for a different run',
+        });
+      }
+
+      const runId = claim.run._id;
+
+      // Async ingestion: the run is durable in the queue, the worker blends it
+      if (ENV.INGEST_MODE === 'async') {
+        let job;
+        try {
+          job = await enqueueRun(runId, serverInput);
+          await markRunQueued(runId);
+        } catch (e: any) {
+          await markRunFailed(runId).catch(() => {});
+          logger.error('POST /sm/save: Failed to queue run', {
+            error: e.message,
+            player_id: serverInput.player_id,
+          });
+          return res.status(500).json({
+            error: 'run_enqueue_failed',
+            message: e.message,
+          });
+        }
+
+        logger.info('POST /sm/save: Queued', {
+          player_id: serverInput.player_id,
+          run_index: serverInput.run_index,
+          job_id: String(job._id),
+        });
+        return res.status(202).location(`/sm/jobs/${job._id}`).json({
+          job_id: String(job._id),
+          status: job.status,
+          status_url: `/sm/jobs/${job._id}`,
+        });
+      }
+
+      let replay = false;
+      try {
+        replay = await markRunApplying(runId);
+        const { body, timings } = await applyRun(memory, serverInput, { replay, tenant: req.tenant! });
+        await markRunSaved(runId, body);
+        res.set('Server-Timing', serverTiming(timings));
+
+        logger.info('POST /sm/save: Success', {
+          player_id: serverInput.player_id,
+          user_node: body.user_node,
+          memories_created: body.memories_created,
+          retried: claim.kind === 'retry',
+          timings: Object.fromEntries(Object.entries(timings).map(([k, v]) => [k, Math.round(v)])),
+        });
+
+        res.json(body);
+      } catch (e) {
+        // Without the lock this attempt wrote nothing (an earlier one still may have)
+        const busy = e instanceof PlayerLockTimeoutError;
+        const withdrawn = e instanceof RunWithdrawnError;
+        await markRunFailed(runId, { ...((busy || withdrawn) && !replay && { written: false }) }).catch(() => {});
+        if (withdrawn) {
+          logger.warn('POST /sm/save: Run withdrawn while waiting for the player lock', {
+            player_id: serverInput.player_id,
+            run_index: serverInput.run_index,
+            reason: e.code,
+          });
+          return res.status(e.code === 'player_erased' ? 410 : 403).json({ error: e.code, message: e.message });
+        }
+        if (busy) {
+          // Nothing was written - the client can safely retry the same run
+          logger.warn('POST /sm/save: Player busy', {
+            player_id: serverInput.player_id,
+            run_index: serverInput.run_index,
+          });
+          return res.status(503).set('Retry-After', '1').json({
+            error: 'player_busy',
+            message: 'Another save for this player is in progress; retry shortly',
+          });
+        }
+        throw e;
+      }
   } catch (e: any) {
+      if (e instanceof TraitModelUnavailableError) return sendModelUnavailable(res, e);
       logger.error('POST /sm/save: Error', {
         error: e.message,
         stack: e.stack,
@@ -177,22 +394,165 @@ app.post('/sm/save', async (req, res) => {
   });
   
   
+  // POST /sm/save/batch
+  // Body: { runs: ServerInput[] } - up to MAX_BATCH_RUNS runs, for one or more players
+  // Each run is validated, logged and idempotent exactly like /sm/save; every player's runs are
+  // blended in completed_at / run_index order and written in one aggregated batch.
+  // Requires: X-API-Key header with write permission; runs for other games or studios' players fail
+  const MAX_BATCH_RUNS = 100;
+  const BatchBodyZ = z.object({
+    runs: z.array(z.unknown()).min(1).max(MAX_BATCH_RUNS),
+  });
+
+  app.post('/sm/save/batch', requirePermission('write'), limit('save_batch'), async (req, res) => {
+    const parsedBody = BatchBodyZ.safeParse(req.body ?? {});
+    if (!parsedBody.success) {
+      logger.warn('POST /sm/save/batch: Invalid body', { issues: parsedBody.error.issues.length });
+      return res.status(400).json({
+        error: 'invalid_payload',
+        details: parsedBody.error.flatten(),
+      });
+    }
+
+    try {
+      const results: Array<Record<string, any> & { index: number; status: 'saved' | 'replayed' | 'queued' | 'failed' }> = [];
+      const toApply: Array<{ index: number; serverInput: ServerInput; runId: unknown; replay: boolean }> = [];
+
+      // Validate and claim every run first; one bad item never fails the others
+      for (const [index, raw] of parsedBody.data.runs.entries()) {
+        const parsed = ServerInputZ.safeParse(raw);
+        if (!parsed.success) {
+          results.push({ index, status: 'failed', error: 'invalid_payload', details: parsed.error.flatten() });
+          continue;
+        }
+        let normalized;
+        try {
+          normalized = await normalizeCustomMetrics(parsed.data);
+        } catch (e: any) {
+          if (!(e instanceof TraitModelUnavailableError)) throw e;
+          results.push({ index, status: 'failed', error: 'trait_model_unavailable', message: e.message });
+          continue;
+        }
+        if (!normalized.success) {
+          results.push({ index, status: 'failed', error: 'invalid_custom_metrics', details: normalized.error.flatten() });
+          continue;
+        }
+        const serverInput: ServerInput = normalized.data;
+        const ids = { player_id: serverInput.player_id, session_id: serverInput.session_id, run_index: serverInput.run_index };
+
+        try {
+          const denied = await authorizeRunWrite(req.tenant!, serverInput);
+          if (denied) {
+            results.push({ index, ...ids, status: 'failed', ...denied });
+            continue;
+          }
+        } catch (e: any) {
+          results.push({ index, ...ids, status: 'failed', error: 'auth_unavailable', message: e.message });
+          continue;
+        }
+
+        let claim: RunClaim;
+        try {
+          claim = await claimRun(serverInput);
+        } catch (e: any) {
+          results.push({ index, ...ids, status: 'failed', error: 'run_persist_failed', message: e.message });
+          continue;
+        }
+
+        if (claim.kind === 'replay') {
+          results.push({ index, ...ids, status: 'replayed', result: claim.run.save_result });
+          continue;
+        }
+        if (claim.kind === 'in_progress') {
+          const job = ENV.INGEST_MODE === 'async' ? await findJobForRun(claim.run._id) : null;
+          results.push(job
+            ? { index, ...ids, status: 'queued', job_id: String(job._id), status_url: `/sm/jobs/${job._id}` }
+            : { index, ...ids, status: 'failed', error: 'run_in_progress', message: 'This run is already being saved; retry shortly' });
+          continue;
+        }
+        if (claim.kind === 'key_conflict') {
+          // Batches carry no Idempotency-Key, so this can't happen - report it rather than guess
+          results.push({ index, ...ids, status: 'failed', error: 'idempotency_key_reused', message: 'Run conflicts with another run' });
+          continue;
+        }
+
+        if (ENV.INGEST_MODE === 'async') {
+          try {
+            const job = await enqueueRun(claim.run._id, serverInput);
+            await markRunQueued(claim.run._id);
+            results.push({ index, ...ids, status: 'queued', job_id: String(job._id), status_url: `/sm/jobs/${job._id}` });
+          } catch (e: any) {
+            await markRunFailed(claim.run._id).catch(() => {});
+            results.push({ index, ...ids, status: 'failed', error: 'run_enqueue_failed', message: e.message });
+          }
+          continue;
+        }
+        try {
+          toApply.push({ index, serverInput, runId: claim.run._id, replay: await markRunApplying(claim.run._id) });
+        } catch (e: any) {
+          await markRunFailed(claim.run._id).catch(() => {});
+          results.push({ index, ...ids, status: 'failed', error: 'run_persist_failed', message: e.message });
+        }
+      }
+
+      if (toApply.length > 0) {
+        let batch;
+        try {
+          batch = await applyBatch(memory, toApply, { tenant: req.tenant! });
+        } catch (e) {
+          await Promise.all(toApply.map(({ runId }) => markRunFailed(runId).catch(() => {})));
+          throw e;
+        }
+        const { outcomes, timings } = batch;
+        for (const [i, outcome] of outcomes.entries()) {
+          const { index, serverInput, runId, replay } = toApply[i]!;
+          const ids = { player_id: serverInput.player_id, session_id: serverInput.session_id, run_index: serverInput.run_index };
+          if (outcome.ok) {
+            try {
+              await markRunSaved(runId, outcome.body);
+              results.push({ index, ...ids, status: 'saved', result: outcome.body });
+            } catch (e: any) {
+              // Blended but not marked: the retry rebuilds by replay rather than blending it again
+              await markRunFailed(runId).catch(() => {});
+              results.push({ index, ...ids, status: 'failed', error: 'run_persist_failed', message: e.message });
+            }
+          } else {
+            const busy = outcome.error === 'player_busy';
+            await markRunFailed(runId, { ...(busy && !replay && { written: false }) }).catch(() => {});
+            results.push({ index, ...ids, status: 'failed', error: outcome.error, message: outcome.message });
+          }
+        }
+        if (timings) res.set('Server-Timing', serverTiming(timings));
+      }
+
+      results.sort((a, b) => a.index - b.index);
+      const count = (status: string) => results.filter(r => r.status === status).length;
+      const summary = { saved: count('saved'), replayed: count('replayed'), queued: count('queued'), failed: count('failed') };
+      logger.info('POST /sm/save/batch: Done', { runs: results.length, ...summary });
+      res.json({ ...summary, results });
+    } catch (e: any) {
+      if (e instanceof TraitModelUnavailableError) return sendModelUnavailable(res, e);
+      logger.error('POST /sm/save/batch: Error', {
+        error: e.message,
+        stack: e.stack,
+      });
+      res.status(502).json({
+        error: 'supermemory_save_failed',
+        message: e.message,
+      });
+    }
+  });
+
   // Helper function to create default gameInput structure
-  function createDefaultGameInput(player_id: string, game_id?: string, genre_id?: string, platform_id?: string) {
+  function createDefaultGameInput(defaultTraits: Traits, player_id: string, game_id?: string, genre_id?: string, platform_id?: string) {
     const now = new Date().toISOString();
-    const defaultTraits = {
-      aggression: 0.5,
-      stealth: 0.5,
-      curiosity: 0.5,
-      puzzle_affinity: 0.5,
-      independence: 0.5,
-      resilience: 0.5,
-      goal_focus: 0.5,
-    };
+    // No runs yet, so no trait is backed by any evidence
+    const defaultConfidence = Object.fromEntries(Object.keys(defaultTraits).map(t => [t, 0]));
 
     const persona: any = {
       global: {
         traits: defaultTraits,
+        confidence: defaultConfidence,
         persona_text: "New player - default balanced traits",
         top_signals: [],
         source: {
@@ -207,6 +567,7 @@ app.post('/sm/save', async (req, res) => {
       persona.game = {
         [game_id]: {
           traits: defaultTraits,
+          confidence: defaultConfidence,
           persona_text: "New player - default balanced traits",
           top_signals: [],
           source: {
@@ -222,6 +583,7 @@ app.post('/sm/save', async (req, res) => {
       persona.genre = {
         [genre_id]: {
           traits: defaultTraits,
+          confidence: defaultConfidence,
           persona_text: "New player - default balanced traits",
           top_signals: [],
           source: {
@@ -237,6 +599,7 @@ app.post('/sm/save', async (req, res) => {
       persona.platform = {
         [platform_id]: {
           traits: defaultTraits,
+          confidence: defaultConfidence,
           persona_text: "New player - default balanced traits",
           top_signals: [],
           source: {
@@ -256,8 +619,20 @@ app.post('/sm/save', async (req, res) => {
     };
   }
 
-  // GET /sm/personas?player_id=...&scope=global|genre|platform|game|any&game_id=...&genre_id=...&platform_id=...&limit=10
-  app.get('/sm/personas', async (req, res) => {
+  // GET /sm/personas?player_id=...&scope=...&limit=...&sort=updated_at|scope&order=desc|asc&cursor=...
+  // Pages through a player's personas; pass next_cursor back as `cursor` for the next page
+  const PersonasQueryZ = z.object({
+    scope: z.enum(['any', 'global', 'game', 'genre', 'platform']).default('any'),
+    game_id: z.string().min(1).optional(),
+    genre_id: z.string().min(1).optional(),
+    platform_id: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(10),
+    sort: z.enum(['updated_at', 'scope']).default('updated_at'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    cursor: z.string().min(1).optional(),
+  });
+
+  app.get('/sm/personas', requirePermission('read'), limit('personas'), async (req, res) => {
     try {
       const player_id = String(req.query.player_id || '');
       if (!player_id) {
@@ -265,10 +640,36 @@ app.post('/sm/save', async (req, res) => {
         return res.status(400).json({ error: 'player_id required' });
       }
 
-      const scope = (req.query.scope as any) || 'any';
-      const game_id = req.query.game_id as string | undefined;
-      const genre_id = req.query.genre_id as string | undefined;
-      const platform_id = req.query.platform_id as string | undefined;
+      const parsed = PersonasQueryZ.safeParse(req.query);
+      if (!parsed.success) {
+        logger.warn('GET /sm/personas: Invalid query', { issues: parsed.error.issues });
+        return res.status(400).json({
+          error: 'invalid_query',
+          details: parsed.error.flatten(),
+        });
+      }
+      const { scope, game_id, genre_id, platform_id, limit: pageLimit, sort, order, cursor } = parsed.data;
+      if (cursor) {
+        try {
+          decodePersonaCursor(cursor, sort, order);
+        } catch (e: any) {
+          logger.warn('GET /sm/personas: Invalid cursor', { player_id, error: e.message });
+          return res.status(400).json({ error: 'invalid_cursor', message: e.message });
+        }
+      }
+
+      const tenant = req.tenant!;
+      if (scope !== 'any' && !canReadScope(tenant, scope)) {
+        return res.status(403).json({ error: 'scope_not_allowed', message: `API key may not read ${scope} personas` });
+      }
+      if (game_id && !canUseGame(tenant, game_id)) {
+        return res.status(403).json({ error: 'game_not_allowed', message: `API key may not read game ${game_id}` });
+      }
+      const ownership = await playerOwnership(tenant, player_id);
+      if (ownership === 'foreign') {
+        logger.warn('GET /sm/personas: Player owned by another studio', { player_id, studio: tenant.studio });
+        return res.status(403).json({ error: 'player_not_owned', message: 'Player belongs to another studio' });
+      }
 
       logger.debug('GET /sm/personas', {
         player_id,
@@ -276,21 +677,29 @@ app.post('/sm/save', async (req, res) => {
         game_id,
         genre_id,
         platform_id,
-        limit: req.query.limit,
+        limit: pageLimit,
+        sort,
+        order,
+        cursor,
       });
 
-      const result = await memory.fetchByFilters({
+      // A player not provisioned for the studio has nothing it may read
+      const result = ownership === 'unprovisioned' ? { total: 0, items: [], next_cursor: null } : await memory.fetchByFilters({
         player_id,
         scope,
         ...(game_id && { game_id }),
         ...(genre_id && { genre_id }),
         ...(platform_id && { platform_id }),
-        limit: req.query.limit ? Number(req.query.limit) : 10,
+        limit: pageLimit,
+        sort,
+        order,
+        ...(cursor && { cursor }),
+        ...personaVisibility(tenant),
         includeContent: true
       });
 
       // If no personas found, return default gameInput structure
-      if (result.total === 0 || !result.items || result.items.length === 0) {
+      if (result.total === 0) {
         logger.info('GET /sm/personas: No personas found, returning default', {
           player_id,
           game_id,
@@ -298,10 +707,13 @@ app.post('/sm/save', async (req, res) => {
           platform_id,
         });
 
-        const defaultGameInput = createDefaultGameInput(player_id, game_id, genre_id, platform_id);
+        // Include any custom traits the game's trait model declares
+        const model = await loadTraitModel(game_id);
+        const defaultGameInput = createDefaultGameInput(traitDefaults(model), player_id, game_id, genre_id, platform_id);
         return res.json({
           total: 0,
           items: [],
+          next_cursor: null,
           default: defaultGameInput,
           message: "No personas found for this player. Returning default gameInput structure."
         });
@@ -326,6 +738,7 @@ app.post('/sm/save', async (req, res) => {
         items: itemsWithExplanations,
       });
     } catch (e:any) {
+      if (e instanceof TraitModelUnavailableError) return sendModelUnavailable(res, e);
       logger.error('GET /sm/personas: Error', {
         error: e.message,
         stack: e.stack,
@@ -335,12 +748,172 @@ app.post('/sm/save', async (req, res) => {
     }
   });
   
+  // GET /sm/personas/resolved?player_id=...&game_id=...&genre_id=...&platform_id=...
+  // One persona for a game context, blended from every scope the player has data in
+  const ResolveQueryZ = z.object({
+    player_id: z.string().min(1),
+    game_id: z.string().min(1).optional(),
+    genre_id: z.string().min(1).optional(),
+    platform_id: z.string().min(1).optional(),
+  });
+
+  app.get('/sm/personas/resolved', requirePermission('read'), limit('personas_resolved'), async (req, res) => {
+    const parsed = ResolveQueryZ.safeParse(req.query);
+    if (!parsed.success) {
+      logger.warn('GET /sm/personas/resolved: Invalid query', { issues: parsed.error.issues });
+      return res.status(400).json({
+        error: 'invalid_query',
+        details: parsed.error.flatten(),
+      });
+    }
+    const { player_id, game_id, genre_id, platform_id } = parsed.data;
+    const tenant = req.tenant!;
+    if (game_id && !canUseGame(tenant, game_id)) {
+      return res.status(403).json({ error: 'game_not_allowed', message: `API key may not read game ${game_id}` });
+    }
+
+    try {
+      const ownership = await playerOwnership(tenant, player_id);
+      if (ownership === 'foreign') {
+        logger.warn('GET /sm/personas/resolved: Player owned by another studio', { player_id, studio: tenant.studio });
+        return res.status(403).json({ error: 'player_not_owned', message: 'Player belongs to another studio' });
+      }
+
+      const model = await loadTraitModel(game_id);
+      const { persona, sources } = await resolvePersona(memory, {
+        player_id,
+        ...(game_id && { game_id }),
+        ...(genre_id && { genre_id }),
+        ...(platform_id && { platform_id }),
+      }, model, key => ownership === 'owned' && canReadKey(tenant, key));
+
+      logger.info('GET /sm/personas/resolved: Success', {
+        player_id,
+        game_id,
+        sources: sources.map(s => s.scope),
+      });
+
+      res.json({
+        player_id,
+        persona,
+        sources,
+        derived_from: sources.length > 0 ? 'blend' : 'default',
+      });
+    } catch (e: any) {
+      if (e instanceof TraitModelUnavailableError) return sendModelUnavailable(res, e);
+      logger.error('GET /sm/personas/resolved: Error', {
+        error: e.message,
+        stack: e.stack,
+        player_id,
+      });
+      res.status(502).json({ error: 'supermemory_read_failed', message: e.message });
+    }
+  });
+
+  // GET /sm/personas/:player_id/history?scope=global|game|genre|platform&game_id=...&genre_id=...&platform_id=...&from=ISO&to=ISO&limit=100
+  // Per-run trait time series for one scope, oldest first
+  const HistoryQueryZ = z.object({
+    scope: z.enum(['global', 'game', 'genre', 'platform']).default('global'),
+    game_id: z.string().min(1).optional(),
+    genre_id: z.string().min(1).optional(),
+    platform_id: z.string().min(1).optional(),
+    from: z.iso.datetime({ offset: true }).optional(),
+    to: z.iso.datetime({ offset: true }).optional(),
+    limit: z.coerce.number().int().min(1).max(1000).default(100),
+  }).refine(q => q.scope === 'global' || !!q[`${q.scope}_id` as 'game_id' | 'genre_id' | 'platform_id'], {
+    message: 'game_id, genre_id or platform_id is required for the matching scope',
+    path: ['scope'],
+  });
+
+  app.get('/sm/personas/:player_id/history', requirePermission('read'), limit('history'), async (req, res) => {
+    const player_id = String(req.params.player_id);
+    const parsed = HistoryQueryZ.safeParse(req.query);
+    if (!parsed.success) {
+      logger.warn('GET /sm/personas/:player_id/history: Invalid query', { player_id });
+      return res.status(400).json({
+        error: 'invalid_query',
+        details: parsed.error.flatten(),
+      });
+    }
+    const q = parsed.data;
+    const key: ScopeKey =
+      q.scope === 'game'     ? { scope: 'game', game_id: q.game_id! } :
+      q.scope === 'genre'    ? { scope: 'genre', genre_id: q.genre_id! } :
+      q.scope === 'platform' ? { scope: 'platform', platform_id: q.platform_id! } :
+                               { scope: 'global' };
+    const tenant = req.tenant!;
+    if (!canReadKey(tenant, key)) {
+      return res.status(403).json({ error: 'scope_not_allowed', message: 'API key may not read this scope' });
+    }
+
+    try {
+      const ownership = await playerOwnership(tenant, player_id);
+      if (ownership === 'foreign') {
+        logger.warn('GET /sm/personas/:player_id/history: Player owned by another studio', { player_id, studio: tenant.studio });
+        return res.status(403).json({ error: 'player_not_owned', message: 'Player belongs to another studio' });
+      }
+
+      const points = ownership === 'unprovisioned' ? [] : await fetchHistory({
+        player_id,
+        key,
+        ...(q.from && { from: new Date(q.from) }),
+        ...(q.to && { to: new Date(q.to) }),
+        limit: q.limit,
+      });
+
+      logger.info('GET /sm/personas/:player_id/history: Success', {
+        player_id,
+        scope: q.scope,
+        points: points.length,
+      });
+
+      res.json({ player_id, scope: key, total: points.length, points });
+    } catch (e: any) {
+      logger.error('GET /sm/personas/:player_id/history: Error', {
+        error: e.message,
+        stack: e.stack,
+        player_id,
+      });
+      res.status(500).json({ error: 'history_fetch_failed', message: e.message });
+    }
+  });
+
+  // GET /sm/jobs/:id - status of a queued save (INGEST_MODE=async)
+  app.get('/sm/jobs/:id', requirePermission('read'), limit('jobs'), async (req, res) => {
+    const id = String(req.params.id);
+    try {
+      const job = await getJob(id);
+      // Other studios' jobs look like unknown ones
+      if (!job || await playerOwnership(req.tenant!, job.player_id) !== 'owned') {
+        return res.status(404).json({ error: 'job_not_found', message: `No ingest job ${id}` });
+      }
+      res.json(jobStatus(job));
+    } catch (e: any) {
+      logger.error('GET /sm/jobs/:id: Error', {
+        error: e.message,
+        stack: e.stack,
+        job_id: id,
+      });
+      res.status(500).json({ error: 'job_fetch_failed', message: e.message });
+    }
+  });
+
   // GET /sm/doc/:id
-  app.get('/sm/doc/:id', async (req, res) => {
+  app.get('/sm/doc/:id', requirePermission('read'), limit('doc'), async (req, res) => {
     try {
-      const id = req.params.id;
+      const id = String(req.params.id);
       logger.debug('GET /sm/doc/:id', { document_id: id });
       const doc = await memory.fetchDocumentById(id);
+      // Documents of other studios' players, games or hidden scopes look like missing ones
+      const tenant = req.tenant!;
+      const owner = doc?.metadata?.player_id;
+      const visible = tenant.legacy || (typeof owner === 'string'
+        && canReadMetadata(tenant, doc.metadata)
+        && await playerOwnership(tenant, owner) === 'owned');
+      if (!visible) {
+        logger.warn('GET /sm/doc/:id: Not visible to API key', { document_id: id, studio: tenant.studio });
+        return res.status(404).json({ error: 'doc_not_found', message: `No document ${id}` });
+      }
       logger.info('GET /sm/doc/:id: Success', { document_id: id });
       res.json(doc);
     } catch (e:any) {
@@ -417,38 +990,495 @@ app.post('/sm/save', async (req, res) => {
 //   }
 // });
 
-// app.get("/next-run/knobs", async (req, res) => {
-//   const player_id = String(req.query.player_id ?? "");
-//   const mode: Mode =
-//     String(req.query.mode ?? "fun") === "challenge" ? "challenge" : "fun";
-//   const rawIntensity = Number(req.query.intensity);
-//   const intensity = Number.isFinite(rawIntensity) ? rawIntensity : 0.5;
+// --- Player data (export / right to erasure) ---
 
-//   try {
-//     const snap = await memory.getPersona(player_id);
-//     const traits =
-//       snap?.traits ?? {
-//         aggression: 0,
-//         stealth: 0,
-//         curiosity: 0,
-//         puzzle_affinity: 0,
-//         independence: 0,
-//         resilience: 0,
-//         goal_focus: 0,
-//       };
-//     const knobs = computeKnobs(traits, mode, intensity);
-//     return res.json(knobs);
-//   } catch (e: any) {
-//     return res
-//       .status(502)
-//       .json({ error: "supermemory_read_failed", message: e.message });
-//   }
-// });
+// Only the owning studio (or a legacy key) can export or erase a player
+async function requireOwnedPlayer(req: express.Request, res: express.Response, playerId: string): Promise<boolean> {
+  const ownership = await playerOwnership(req.tenant!, playerId);
+  if (ownership === 'owned') return true;
+  if (ownership === 'foreign') {
+    res.status(403).json({ error: 'player_not_owned', message: 'Player belongs to another studio' });
+  } else {
+    res.status(404).json({ error: 'player_not_found', message: `No data for player ${playerId}` });
+  }
+  return false;
+}
+
+// GET /players/:id/export
+// Everything the key may read about the player as one JSON bundle: runs, personas, history (filtered by scopes / game_ids)
+app.get('/players/:id/export', requirePermission('read'), limit('player_export'), async (req, res) => {
+  const playerId = String(req.params.id);
+  try {
+    if (!await requireOwnedPlayer(req, res, playerId)) return;
+    const bundle = await exportPlayer(memory, req.tenant!, playerId);
+    logger.info('GET /players/:id/export: Success', {
+      player_id: playerId,
+      studio: req.tenant!.studio,
+      runs: bundle.runs.length,
+      personas: bundle.personas.length,
+      history: bundle.history.length,
+    });
+    res.set('Content-Disposition', `attachment; filename="player-${encodeURIComponent(playerId)}.json"`);
+    res.json(bundle);
+  } catch (e: any) {
+    logger.error('GET /players/:id/export: Error', { error: e.message, stack: e.stack, player_id: playerId });
+    res.status(502).json({ error: 'player_export_failed', message: e.message });
+  }
+});
+
+// DELETE /players/:id
+// Body: { reason?: string } - erase every memory, run and history point of the player; audited in player_deletions
+// Requires: tenant or legacy X-API-Key with write permission (not a session token)
+const DeletePlayerBodyZ = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+app.delete('/players/:id', requirePermission('write'), limit('player_delete'), async (req, res) => {
+  const playerId = String(req.params.id);
+  const tenant = req.tenant!;
+  if (tenant.session_player !== undefined) {
+    return res.status(403).json({ error: 'forbidden', message: 'Player erasure needs an API key, not a session token' });
+  }
+  const parsed = DeletePlayerBodyZ.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logger.warn('DELETE /players/:id: Invalid body', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_payload',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  try {
+    if (!await requireOwnedPlayer(req, res, playerId)) return;
+    const result = await deletePlayer(memory, playerId, tenant, parsed.data.reason);
+    logger.info('DELETE /players/:id: Player erased', { ...result, studio: tenant.studio });
+    res.json(result);
+  } catch (e: any) {
+    if (e instanceof PlayerLockTimeoutError) {
+      return res.status(503).set('Retry-After', '1').json({
+        error: 'player_busy',
+        message: 'A save for this player is in progress; retry shortly',
+      });
+    }
+    logger.error('DELETE /players/:id: Error', { error: e.message, stack: e.stack, player_id: playerId });
+    res.status(502).json({ error: 'player_delete_failed', message: e.message });
+  }
+});
+
+// GET /next-run/knobs?player_id=...&mode=fun|challenge&intensity=0..1&game_id=...&genre_id=...&platform_id=...
+// Resolves traits from the most specific persona available (game → genre → platform → global)
+// and turns them into knobs for the next run.
+const KnobsQueryZ = z.object({
+  player_id: z.string().min(1),
+  mode: ModeZ.default('fun'),
+  intensity: z.coerce.number().min(0).max(1).default(0.5),
+  game_id: z.string().min(1).optional(),
+  genre_id: z.string().min(1).optional(),
+  platform_id: z.string().min(1).optional(),
+});
+
+app.get('/next-run/knobs', requirePermission('read'), limit('knobs'), async (req, res) => {
+  const parsed = KnobsQueryZ.safeParse(req.query);
+  if (!parsed.success) {
+    logger.warn('GET /next-run/knobs: Invalid query', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_query',
+      details: parsed.error.flatten(),
+    });
+  }
+  const { player_id, mode, intensity, game_id, genre_id, platform_id } = parsed.data;
+  const tenant = req.tenant!;
+  if (game_id && !canUseGame(tenant, game_id)) {
+    return res.status(403).json({ error: 'game_not_allowed', message: `API key may not read game ${game_id}` });
+  }
+
+  // Most specific scope first; global is always the last resort before defaults
+  const candidates = resolutionKeys({
+    ...(game_id && { game_id }),
+    ...(genre_id && { genre_id }),
+    ...(platform_id && { platform_id }),
+  }).filter(key => canReadKey(tenant, key));
+
+  try {
+    const ownership = await playerOwnership(tenant, player_id);
+    if (ownership === 'foreign') {
+      logger.warn('GET /next-run/knobs: Player owned by another studio', { player_id, studio: tenant.studio });
+      return res.status(403).json({ error: 'player_not_owned', message: 'Player belongs to another studio' });
+    }
+
+    let traits: Traits = DEFAULT_TRAITS;
+    let derived_from: (ScopeKey & { updated_at?: string }) | { scope: 'default' } = { scope: 'default' };
+
+    for (const key of ownership === 'owned' ? candidates : []) {
+      const found = await memory.fetchLatestPersona(player_id, key);
+      if (found?.persona) {
+        traits = found.persona.traits;
+        derived_from = { ...key, updated_at: found.persona.updated_at };
+        break;
+      }
+    }
+
+    const knobs = KnobsZ.parse(computeKnobs(traits, mode, intensity));
+
+    logger.info('GET /next-run/knobs: Success', {
+      player_id,
+      mode,
+      intensity,
+      derived_from: derived_from.scope,
+    });
+
+    res.json({ player_id, mode, intensity, knobs, traits, derived_from });
+  } catch (e: any) {
+    logger.error('GET /next-run/knobs: Error', {
+      error: e.message,
+      stack: e.stack,
+      player_id,
+    });
+    res.status(502).json({ error: 'supermemory_read_failed', message: e.message });
+  }
+});
+
+// POST /admin/personas/rebuild
+// Body: { player_id?: string, player_ids?: string[], dry_run?: boolean }
+// Replays stored runs through the current trait models and rewrites every persona scope.
+// Runs in the request, so it takes at most MAX_REBUILD_PLAYERS players; rebuild everyone with the CLI.
+// Requires: admin key (ADMIN_API_KEYS)
+const MAX_REBUILD_PLAYERS = 25;
+const RebuildBodyZ = z.object({
+  player_id: z.string().min(1).optional(),
+  player_ids: z.array(z.string().min(1)).min(1).max(MAX_REBUILD_PLAYERS).optional(),
+  all: z.boolean().optional(), // only to point callers at the CLI
+  dry_run: z.boolean().default(false),
+}).superRefine((b, ctx) => {
+  if (b.all) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['all'],
+      message: 'Rebuilding every player is not available over HTTP - run npm run rebuild:personas -- --all',
+    });
+  } else if ((b.player_id !== undefined) === (b.player_ids !== undefined)) {
+    ctx.addIssue({ code: 'custom', message: 'Pass either player_id or player_ids' });
+  }
+});
+
+admin.post('/personas/rebuild', async (req, res) => {
+  const parsed = RebuildBodyZ.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logger.warn('POST /admin/personas/rebuild: Invalid body', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_payload',
+      details: parsed.error.flatten(),
+    });
+  }
+  const { player_id, dry_run } = parsed.data;
+  const player_ids = [...new Set(parsed.data.player_ids ?? [player_id!])];
+
+  logger.info('POST /admin/personas/rebuild', { players: player_ids.length, dry_run });
+  try {
+    const result = await rebuildPlayers(memory, { playerIds: player_ids, dryRun: dry_run });
+    logger.info('POST /admin/personas/rebuild: Done', {
+      dry_run,
+      players: result.players.length,
+      failed: result.failed.length,
+    });
+    res.json(result);
+  } catch (e: any) {
+    logger.error('POST /admin/personas/rebuild: Error', {
+      error: e.message,
+      stack: e.stack,
+      players: player_ids.length,
+    });
+    res.status(500).json({ error: 'rebuild_failed', message: e.message });
+  }
+});
+
+// --- Tenant and API key administration (admin key required) ---
+// Plain keys are returned once, when issued or rotated; only their SHA-256 hash is stored.
+
+const FutureDateZ = z.iso.datetime({ offset: true })
+  .transform(v => new Date(v))
+  .refine(d => d > new Date(), { message: 'must be in the future' });
+
+const NewKeyBodyZ = z.object({
+  name: z.string().min(1).max(100).optional(),
+  expires_at: FutureDateZ.optional(),
+});
+
+// Rate-limit overrides; unset fields fall back to the tenant default, then to ENV
+const RouteLimitZ = z.object({
+  rate_per_minute: z.number().min(0).optional(),
+  burst: z.number().int().min(0).optional(),
+  daily_quota: z.number().int().min(0).optional(),
+}).strict();
+const TenantLimitsZ = z.object({
+  default: RouteLimitZ.optional(),
+  routes: z.partialRecord(z.enum(RATE_LIMITED_ROUTES), RouteLimitZ).default({}),
+}).strict();
+
+// POST /admin/tenants
+// Body: { studio, name?, game_ids, scopes?, permissions?: { read?, write? }, limits?, key_name?, expires_at? }
+const CreateTenantBodyZ = z.object({
+  studio: z.string().min(1),
+  name: z.string().min(1).optional(),
+  game_ids: z.array(z.string().min(1)).min(1),
+  scopes: z.array(z.enum(['global', 'game', 'genre', 'platform'])).min(1).optional(),
+  permissions: z.object({ read: z.boolean().optional(), write: z.boolean().optional() }).optional(),
+  limits: TenantLimitsZ.optional(),
+  key_name: z.string().min(1).max(100).optional(),
+  expires_at: FutureDateZ.optional(),
+});
+
+admin.post('/tenants', async (req, res) => {
+  const parsed = CreateTenantBodyZ.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logger.warn('POST /admin/tenants: Invalid body', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_payload',
+      details: parsed.error.flatten(),
+    });
+  }
+  const { key_name, expires_at, ...tenant } = parsed.data;
+
+  try {
+    const created = await createTenant(tenant, { ...(key_name && { name: key_name }), ...(expires_at && { expires_at }) });
+    logger.info('POST /admin/tenants: Created', { tenant_id: created.tenant.tenant_id, studio: tenant.studio });
+    res.status(201).json(created);
+  } catch (e: any) {
+    logger.error('POST /admin/tenants: Error', { error: e.message, stack: e.stack });
+    res.status(500).json({ error: 'tenant_create_failed', message: e.message });
+  }
+});
+
+// GET /admin/tenants - every tenant with its keys (status, last use, expiry)
+admin.get('/tenants', async (req, res) => {
+  try {
+    const tenants = await listTenants();
+    res.json({ total: tenants.length, tenants });
+  } catch (e: any) {
+    logger.error('GET /admin/tenants: Error', { error: e.message, stack: e.stack });
+    res.status(500).json({ error: 'tenant_fetch_failed', message: e.message });
+  }
+});
+
+// PUT /admin/tenants/:tenant_id/limits
+// Body: { default?: RouteLimit, routes?: { [route]: RouteLimit } } - replaces the tenant's overrides
+admin.put('/tenants/:tenant_id/limits', async (req, res) => {
+  const tenantId = String(req.params.tenant_id);
+  const parsed = TenantLimitsZ.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logger.warn('PUT /admin/tenants/:tenant_id/limits: Invalid body', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_payload',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  try {
+    const tenant = await setTenantLimits(tenantId, parsed.data);
+    if (!tenant) return res.status(404).json({ error: 'tenant_not_found', message: `No tenant ${tenantId}` });
+    logger.info('PUT /admin/tenants/:tenant_id/limits: Updated', { tenant_id: tenantId, limits: tenant.limits });
+    res.json(tenant);
+  } catch (e: any) {
+    logger.error('PUT /admin/tenants/:tenant_id/limits: Error', { error: e.message, stack: e.stack, tenant_id: tenantId });
+    res.status(500).json({ error: 'tenant_update_failed', message: e.message });
+  }
+});
+
+// GET /admin/usage?tenant_id=...
+// Rate-limit and quota counters per key and route, with the limits that apply to them
+admin.get('/usage', async (req, res) => {
+  const tenantId = req.query.tenant_id ? String(req.query.tenant_id) : undefined;
+  try {
+    const rows = await usageReport(usage, tenantId);
+    res.json({ store: ENV.USAGE_STORE, total: rows.length, usage: rows });
+  } catch (e: any) {
+    logger.error('GET /admin/usage: Error', { error: e.message, stack: e.stack, tenant_id: tenantId });
+    res.status(500).json({ error: 'usage_fetch_failed', message: e.message });
+  }
+});
+
+// GET /admin/tenants/:tenant_id/keys
+admin.get('/tenants/:tenant_id/keys', async (req, res) => {
+  const tenantId = String(req.params.tenant_id);
+  try {
+    const keys = await listKeys(tenantId);
+    if (!keys) return res.status(404).json({ error: 'tenant_not_found', message: `No tenant ${tenantId}` });
+    res.json({ tenant_id: tenantId, keys });
+  } catch (e: any) {
+    logger.error('GET /admin/tenants/:tenant_id/keys: Error', { error: e.message, stack: e.stack, tenant_id: tenantId });
+    res.status(500).json({ error: 'key_fetch_failed', message: e.message });
+  }
+});
+
+// POST /admin/tenants/:tenant_id/keys
+// Body: { name?, expires_at? } - issues an additional key
+admin.post('/tenants/:tenant_id/keys', async (req, res) => {
+  const tenantId = String(req.params.tenant_id);
+  const parsed = NewKeyBodyZ.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logger.warn('POST /admin/tenants/:tenant_id/keys: Invalid body', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_payload',
+      details: parsed.error.flatten(),
+    });
+  }
+  const { name, expires_at } = parsed.data;
+
+  try {
+    const issued = await issueKey(tenantId, { ...(name && { name }), ...(expires_at && { expires_at }) });
+    if (!issued) return res.status(404).json({ error: 'tenant_not_found', message: `No tenant ${tenantId}` });
+    logger.info('POST /admin/tenants/:tenant_id/keys: Issued', { tenant_id: tenantId, key_id: issued.info.key_id });
+    res.status(201).json(issued);
+  } catch (e: any) {
+    logger.error('POST /admin/tenants/:tenant_id/keys: Error', { error: e.message, stack: e.stack, tenant_id: tenantId });
+    res.status(500).json({ error: 'key_issue_failed', message: e.message });
+  }
+});
+
+// POST /admin/tenants/:tenant_id/keys/:key_id/rotate
+// Body: { grace_hours?, name?, expires_at? } - issues a replacement; the old key works until the grace period ends
+const RotateKeyBodyZ = NewKeyBodyZ.extend({
+  grace_hours: z.number().min(0).max(24 * 30).optional(),
+});
+
+admin.post('/tenants/:tenant_id/keys/:key_id/rotate', async (req, res) => {
+  const tenantId = String(req.params.tenant_id);
+  const keyId = String(req.params.key_id);
+  const parsed = RotateKeyBodyZ.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logger.warn('POST /admin/tenants/:tenant_id/keys/:key_id/rotate: Invalid body', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_payload',
+      details: parsed.error.flatten(),
+    });
+  }
+  const { name, expires_at, grace_hours } = parsed.data;
+
+  try {
+    const rotated = await rotateKey(tenantId, keyId, {
+      ...(name && { name }),
+      ...(expires_at && { expires_at }),
+      ...(grace_hours !== undefined && { graceHours: grace_hours }),
+    });
+    if (!rotated) return res.status(404).json({ error: 'key_not_found', message: `No key ${keyId} for tenant ${tenantId}` });
+    logger.info('POST /admin/tenants/:tenant_id/keys/:key_id/rotate: Rotated', {
+      tenant_id: tenantId,
+      key_id: keyId,
+      new_key_id: rotated.info.key_id,
+      old_expires_at: rotated.replaced.expires_at,
+    });
+    res.status(201).json(rotated);
+  } catch (e: any) {
+    if (e instanceof KeyRevokedError) return res.status(409).json({ error: 'key_revoked', message: e.message });
+    logger.error('POST /admin/tenants/:tenant_id/keys/:key_id/rotate: Error', { error: e.message, stack: e.stack, key_id: keyId });
+    res.status(500).json({ error: 'key_rotate_failed', message: e.message });
+  }
+});
+
+// POST /admin/tenants/:tenant_id/keys/:key_id/revoke - rejected from the next request on
+admin.post('/tenants/:tenant_id/keys/:key_id/revoke', async (req, res) => {
+  const tenantId = String(req.params.tenant_id);
+  const keyId = String(req.params.key_id);
+  try {
+    const key = await revokeKey(tenantId, keyId);
+    if (!key) return res.status(404).json({ error: 'key_not_found', message: `No key ${keyId} for tenant ${tenantId}` });
+    logger.info('POST /admin/tenants/:tenant_id/keys/:key_id/revoke: Revoked', { tenant_id: tenantId, key_id: keyId });
+    res.json(key);
+  } catch (e: any) {
+    logger.error('POST /admin/tenants/:tenant_id/keys/:key_id/revoke: Error', { error: e.message, stack: e.stack, key_id: keyId });
+    res.status(500).json({ error: 'key_revoke_failed', message: e.message });
+  }
+});
+
+// PATCH /admin/tenants/:tenant_id/keys/:key_id
+// Body: { expires_at: ISO | null } - set or clear the key's expiry
+const KeyExpiryBodyZ = z.object({
+  expires_at: z.iso.datetime({ offset: true }).transform(v => new Date(v)).nullable(),
+});
+
+admin.patch('/tenants/:tenant_id/keys/:key_id', async (req, res) => {
+  const tenantId = String(req.params.tenant_id);
+  const keyId = String(req.params.key_id);
+  const parsed = KeyExpiryBodyZ.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logger.warn('PATCH /admin/tenants/:tenant_id/keys/:key_id: Invalid body', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_payload',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  try {
+    const key = await setKeyExpiry(tenantId, keyId, parsed.data.expires_at);
+    if (!key) return res.status(404).json({ error: 'key_not_found', message: `No key ${keyId} for tenant ${tenantId}` });
+    logger.info('PATCH /admin/tenants/:tenant_id/keys/:key_id: Expiry set', { tenant_id: tenantId, key_id: keyId, expires_at: key.expires_at });
+    res.json(key);
+  } catch (e: any) {
+    if (e instanceof KeyRevokedError) return res.status(409).json({ error: 'key_revoked', message: e.message });
+    logger.error('PATCH /admin/tenants/:tenant_id/keys/:key_id: Error', { error: e.message, stack: e.stack, key_id: keyId });
+    res.status(500).json({ error: 'key_update_failed', message: e.message });
+  }
+});
+
+// POST /admin/tenants/:tenant_id/players
+// Body: { player_ids } - provision players for the tenant; players another tenant owns are reported as conflicts
+const ProvisionPlayersBodyZ = z.object({
+  player_ids: z.array(z.string().min(1)).min(1).max(1000),
+});
+
+admin.post('/tenants/:tenant_id/players', async (req, res) => {
+  const tenantId = String(req.params.tenant_id);
+  const parsed = ProvisionPlayersBodyZ.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logger.warn('POST /admin/tenants/:tenant_id/players: Invalid body', { issues: parsed.error.issues });
+    return res.status(400).json({
+      error: 'invalid_payload',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  try {
+    const result = await provisionPlayers(tenantId, parsed.data.player_ids);
+    if (!result) return res.status(404).json({ error: 'tenant_not_found', message: `No tenant ${tenantId}` });
+    logger.info('POST /admin/tenants/:tenant_id/players: Provisioned', {
+      tenant_id: tenantId,
+      provisioned: result.provisioned.length,
+      already_owned: result.already_owned.length,
+      conflicts: result.conflicts.length,
+    });
+    res.json({ tenant_id: tenantId, ...result });
+  } catch (e: any) {
+    logger.error('POST /admin/tenants/:tenant_id/players: Error', { error: e.message, stack: e.stack, tenant_id: tenantId });
+    res.status(500).json({ error: 'player_provision_failed', message: e.message });
+  }
+});
+
+// DELETE /admin/tenants/:tenant_id/players/:player_id - the player's data stays; nobody but legacy keys can use it until provisioned again
+admin.delete('/tenants/:tenant_id/players/:player_id', async (req, res) => {
+  const tenantId = String(req.params.tenant_id);
+  const playerId = String(req.params.player_id);
+  try {
+    if (!await releasePlayer(tenantId, playerId)) {
+      return res.status(404).json({ error: 'player_not_found', message: `Player ${playerId} is not provisioned for tenant ${tenantId}` });
+    }
+    logger.info('DELETE /admin/tenants/:tenant_id/players/:player_id: Released', { tenant_id: tenantId, player_id: playerId });
+    res.json({ tenant_id: tenantId, player_id: playerId, released: true });
+  } catch (e: any) {
+    logger.error('DELETE /admin/tenants/:tenant_id/players/:player_id: Error', { error: e.message, stack: e.stack, tenant_id: tenantId });
+    res.status(500).json({ error: 'player_release_failed', message: e.message });
+  }
+});
+
+// Unknown admin routes end here: an admin key must never fall through to API key auth
+admin.use((req, res) => {
+  res.status(404).json({ error: 'not_found', message: `No admin route ${req.method} ${req.originalUrl}` });
+});
 
 // Start server
 async function start() {
   try {
     await connectMongo();
+    if (ENV.INGEST_MODE === 'async') startIngestWorker(memory);
     app.listen(ENV.PORT, () => {
       logger.info(`Server listening on port ${ENV.PORT}`);
     });
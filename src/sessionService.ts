@@ -0,0 +1,114 @@
+// src/sessionService.ts
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { RequestNonceModel } from './models/RequestNonce.model.ts';
+import { ENV } from './config.ts';
+import type { TenantContext } from './tenantService.ts';
+
+const TOKEN_PREFIX = 'cst_';
+const NONCE_RE = /^[A-Za-z0-9_-]{16,128}$/;
+
+/** What a session token vouches for; signed by the server, readable by anyone holding it */
+export type SessionClaims = {
+  sid: string; // session id
+  tid: string; // tenant id
+  kid: string; // key the session was issued under - revoking it ends the session
+  pid: string; // the only player the session may touch
+  exp: number; // epoch seconds
+};
+
+/** Why a signed request was rejected; `error` is the API error code */
+export class SignatureError extends Error {
+  constructor(readonly error: string, message: string) {
+    super(message);
+    this.name = 'SignatureError';
+  }
+}
+
+const mac = (data: string) => createHmac('sha256', ENV.SESSION_SECRET).update(data).digest();
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Key the client signs requests with - derived from the session, so nothing needs storing */
+const signingKey = (sid: string) => mac(`signing.${sid}`).toString('hex');
+
+/**
+ * Issue a short-lived session for one player, under the calling tenant key.
+ * The token identifies the session; the signing key is what the client signs requests with.
+ */
+export function issueSession(tenant: TenantContext, playerId: string, ttlSeconds = Math.min(ENV.SESSION_TTL_S, ENV.SESSION_MAX_TTL_S)) {
+  const claims: SessionClaims = {
+    sid: randomBytes(16).toString('hex'),
+    tid: tenant.id,
+    kid: tenant.key_id,
+    pid: playerId,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return {
+    session_token: `${TOKEN_PREFIX}${payload}.${mac(`token.${payload}`).toString('base64url')}`,
+    signing_key: signingKey(claims.sid),
+    player_id: playerId,
+    expires_at: new Date(claims.exp * 1000).toISOString(),
+  };
+}
+
+/** Claims of a genuine, unexpired session token; throws SignatureError otherwise */
+export function verifySessionToken(token: string): SessionClaims {
+  const [payload, sig] = token.startsWith(TOKEN_PREFIX) ? token.slice(TOKEN_PREFIX.length).split('.') : [];
+  if (!payload || !sig || !safeEqual(Buffer.from(sig, 'base64url'), mac(`token.${payload}`))) {
+    throw new SignatureError('session_invalid', 'Invalid session token');
+  }
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as SessionClaims;
+  if (claims.exp * 1000 <= Date.now()) {
+    throw new SignatureError('session_expired', 'Session token expired; request a new session');
+  }
+  return claims;
+}
+
+/** The string a client signs: timestamp, nonce, method, path with query, and the body's SHA-256 */
+export function signaturePayload(parts: { timestamp: string; nonce: string; method: string; url: string; body?: Buffer | undefined }): string {
+  const bodyHash = createHash('sha256').update(parts.body ?? Buffer.alloc(0)).digest('hex');
+  return [parts.timestamp, parts.nonce, parts.method.toUpperCase(), parts.url, bodyHash].join('\n');
+}
+
+/**
+ * Check a request's signature for a session: timestamp within SIGNATURE_SKEW_S of now, HMAC
+ * of the signature payload under the session's signing key, and a nonce never seen before.
+ * Throws SignatureError when any check fails.
+ */
+export async function verifyRequestSignature(
+  claims: SessionClaims,
+  req: { timestamp?: string | undefined; nonce?: string | undefined; signature?: string | undefined; method: string; url: string; body?: Buffer | undefined },
+) {
+  const { timestamp, nonce, signature } = req;
+  if (!timestamp || !nonce || !signature) {
+    throw new SignatureError('signature_required', 'Signed requests need X-Timestamp, X-Nonce and X-Signature headers');
+  }
+  if (!NONCE_RE.test(nonce)) {
+    throw new SignatureError('signature_invalid', 'X-Nonce must be 16-128 characters of [A-Za-z0-9_-]');
+  }
+  const skew = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!(skew <= ENV.SIGNATURE_SKEW_S)) {
+    throw new SignatureError('signature_expired', `X-Timestamp is more than ${ENV.SIGNATURE_SKEW_S}s from server time`);
+  }
+
+  const expected = createHmac('sha256', signingKey(claims.sid))
+    .update(signaturePayload({ timestamp, nonce, method: req.method, url: req.url, body: req.body }))
+    .digest();
+  if (!safeEqual(Buffer.from(signature, 'hex'), expected)) {
+    throw new SignatureError('signature_invalid', 'Request signature does not match');
+  }
+
+  // A nonce only has to be remembered while its timestamp would still pass the skew check
+  try {
+    await RequestNonceModel.create({
+      _id: `${claims.sid}:${nonce}`,
+      expires_at: new Date((Number(timestamp) + ENV.SIGNATURE_SKEW_S) * 1000),
+    });
+  } catch (e: any) {
+    if (e.code === 11000) throw new SignatureError('request_replayed', 'Nonce already used');
+    throw e;
+  }
+}
@@ -105,12 +105,12 @@ async function saveGameDataToSupermemory(serverInput: ServerInput, gameId: strin
   // Compute traits for global persona (blend with previous global)
   const globalTraits = computeTraits(serverInput.stats, prevGlobalPersona?.traits);
   const globalText = personaText(globalTraits);
-  const globalSignals = topSignals(serverInput.stats);
+  const globalSignals = topSignals(serverInput);
 
   // Compute traits for game-specific persona (blend with previous game-specific)
   const gameTraits = computeTraits(serverInput.stats, prevGamePersona?.traits);
   const gameText = personaText(gameTraits);
-  const gameSignals = topSignals(serverInput.stats);
+  const gameSignals = topSignals(serverInput);
 
   const now = new Date().toISOString();
 
@@ -0,0 +1,262 @@
+// src/tenantService.ts
+import mongoose from 'mongoose';
+import { TenantModel } from './models/Tenant.model.ts';
+import type { Tenant } from './models/Tenant.model.ts';
+import { PlayerOwnerModel } from './models/PlayerOwner.model.ts';
+import type { FetchByFiltersParams, PersonaScope, ScopeKey } from './memory/PersonaStore.ts';
+import type { ServerInput } from './types.ts';
+import type { RouteLimit } from './usage/UsageStore.ts';
+import { ENV } from './config.ts';
+import { hashApiKey, keyInfo, keyPrefix, keyStatus, newKeyEntry, touchKey } from './apiKeyService.ts';
+import type { KeyEntry, KeyInfo, NewKey } from './apiKeyService.ts';
+
+const ALL_SCOPES: PersonaScope[] = ['global', 'game', 'genre', 'platform'];
+
+/** The tenant a request authenticated as, attached by requireApiKey as `req.tenant` */
+export type TenantContext = {
+  id: string;
+  studio: string;
+  game_ids: string[];      // "*" allows every game
+  scopes: PersonaScope[];  // persona scopes the tenant may read
+  permissions: { read: boolean; write: boolean };
+  limits: TenantLimits;
+  key_id: string;
+  key_prefix: string;
+  legacy: boolean;         // an ENV.API_KEYS key: unrestricted, owns no players
+  session_player?: string; // a signed session request: only this player may be touched
+};
+
+/** Overrides of a route's limits; unset fields inherit */
+export type LimitOverride = { [K in keyof RouteLimit]?: RouteLimit[K] | undefined };
+
+/** A tenant's overrides of the default rate limits: for every route, and by route name */
+export type TenantLimits = { default?: LimitOverride | undefined; routes: Partial<Record<string, LimitOverride>> };
+
+type StoredLimit = { rate_per_minute?: number | null; burst?: number | null; daily_quota?: number | null };
+type StoredLimits = { default?: StoredLimit | null; routes?: Map<string, StoredLimit> | Record<string, StoredLimit> | null } | null | undefined;
+
+function cleanLimit(limit: StoredLimit): LimitOverride {
+  const out: LimitOverride = {};
+  for (const field of ['rate_per_minute', 'burst', 'daily_quota'] as const) {
+    const value = limit[field];
+    if (typeof value === 'number') out[field] = value;
+  }
+  return out;
+}
+
+// Lean reads return `routes` as a plain object, documents as a Map
+function toLimits(limits: StoredLimits): TenantLimits {
+  const routes = limits?.routes instanceof Map ? Object.fromEntries(limits.routes) : limits?.routes ?? {};
+  return {
+    ...(limits?.default && { default: cleanLimit(limits.default) }),
+    routes: Object.fromEntries(Object.entries(routes).map(([route, limit]) => [route, cleanLimit(limit)])),
+  };
+}
+
+function toContext(tenant: Pick<Tenant, 'studio' | 'game_ids' | 'scopes' | 'permissions'> & { _id: unknown; limits?: StoredLimits }, key: Pick<KeyEntry, 'key_id' | 'key_prefix'>): TenantContext {
+  return {
+    id: String(tenant._id),
+    studio: tenant.studio,
+    game_ids: tenant.game_ids,
+    scopes: tenant.scopes as PersonaScope[],
+    permissions: { read: tenant.permissions?.read ?? false, write: tenant.permissions?.write ?? false },
+    limits: toLimits(tenant.limits),
+    key_id: key.key_id,
+    key_prefix: key.key_prefix,
+    legacy: false,
+  };
+}
+
+/** Unrestricted tenant for keys from ENV.API_KEYS */
+export function legacyTenant(key: string): TenantContext {
+  return {
+    id: 'env',
+    studio: 'env',
+    game_ids: ['*'],
+    scopes: ALL_SCOPES,
+    permissions: { read: true, write: true },
+    limits: { routes: {} },
+    key_id: `env:${keyPrefix(key)}`,
+    key_prefix: keyPrefix(key),
+    legacy: true,
+  };
+}
+
+// Omitted (or undefined) fields take the schema defaults
+export type NewTenant = {
+  studio: string;
+  name?: string | undefined;
+  game_ids: string[];
+  scopes?: PersonaScope[] | undefined;
+  permissions?: { read?: boolean | undefined; write?: boolean | undefined } | undefined;
+  limits?: TenantLimits | undefined;
+};
+
+/** A tenant as listed by admin routes */
+export type TenantInfo = {
+  tenant_id: string;
+  studio: string;
+  name: string | null;
+  game_ids: string[];
+  scopes: PersonaScope[];
+  permissions: { read: boolean; write: boolean };
+  limits: TenantLimits;
+  keys: KeyInfo[];
+};
+
+function tenantInfo(tenant: Pick<Tenant, 'studio' | 'name' | 'game_ids' | 'scopes' | 'permissions'> & { _id: unknown; limits?: StoredLimits; keys: KeyEntry[] }): TenantInfo {
+  return {
+    tenant_id: String(tenant._id),
+    studio: tenant.studio,
+    name: tenant.name ?? null,
+    game_ids: tenant.game_ids,
+    scopes: tenant.scopes as PersonaScope[],
+    permissions: { read: tenant.permissions?.read ?? false, write: tenant.permissions?.write ?? false },
+    limits: toLimits(tenant.limits),
+    keys: tenant.keys.map(keyInfo),
+  };
+}
+
+/** Create a tenant with its first key; the plain key is only ever returned here */
+export async function createTenant(input: NewTenant, firstKey: NewKey = {}): Promise<{ tenant: TenantInfo; key: string }> {
+  const { key, entry } = newKeyEntry(firstKey);
+  const tenant = await TenantModel.create({ ...input, keys: [entry] });
+  return { tenant: tenantInfo(tenant.toObject()), key };
+}
+
+export async function listTenants(): Promise<TenantInfo[]> {
+  const tenants = await TenantModel.find().sort({ createdAt: 1 }).lean();
+  return tenants.map(tenantInfo);
+}
+
+/** Replace a tenant's rate-limit overrides; null for unknown tenants. Applies from the next request */
+export async function setTenantLimits(tenantId: string, limits: TenantLimits): Promise<TenantInfo | null> {
+  if (!mongoose.isValidObjectId(tenantId)) return null;
+  const tenant = await TenantModel.findByIdAndUpdate(tenantId, { $set: { limits } }, { new: true, runValidators: true }).lean();
+  return tenant ? tenantInfo(tenant) : null;
+}
+
+/** Result of looking a key up: its tenant, or why a known key is no longer accepted */
+export type KeyLookup = { tenant: TenantContext } | { rejected: 'expired' | 'revoked' } | null;
+
+/** Tenant owning a key, checking revocation and expiry; null for unknown keys */
+export async function findTenantByKey(key: string): Promise<KeyLookup> {
+  const keyHash = hashApiKey(key);
+  const tenant = await TenantModel.findOne({ 'keys.key_hash': keyHash }).lean();
+  const entry = tenant?.keys.find(k => k.key_hash === keyHash);
+  if (!tenant || !entry) return null;
+
+  const status = keyStatus(entry);
+  if (status !== 'active') return { rejected: status };
+  touchKey(tenant._id, keyHash);
+  return { tenant: toContext(tenant, entry) };
+}
+
+/** Tenant by id, acting through one of its keys (for session tokens issued under that key) */
+export async function findTenantByKeyId(tenantId: string, keyId: string): Promise<KeyLookup> {
+  if (!mongoose.isValidObjectId(tenantId)) return null;
+  const tenant = await TenantModel.findById(tenantId).lean();
+  const entry = tenant?.keys.find(k => k.key_id === keyId);
+  if (!tenant || !entry) return null;
+
+  const status = keyStatus(entry);
+  return status === 'active' ? { tenant: toContext(tenant, entry) } : { rejected: status };
+}
+
+export function canUseGame(tenant: TenantContext, gameId: string | undefined): boolean {
+  if (tenant.game_ids.includes('*')) return true;
+  return gameId !== undefined && tenant.game_ids.includes(gameId);
+}
+
+export function canReadScope(tenant: TenantContext, scope: PersonaScope): boolean {
+  return tenant.scopes.includes(scope);
+}
+
+/** Whether the tenant may read a persona scope key (its scope type, and its game for game keys) */
+export function canReadKey(tenant: TenantContext, key: ScopeKey): boolean {
+  return canReadScope(tenant, key.scope) && (key.scope !== 'game' || canUseGame(tenant, key.game_id));
+}
+
+/** fetchByFilters restrictions hiding the scopes and games a tenant may not read */
+export function personaVisibility(tenant: TenantContext): Pick<FetchByFiltersParams, 'allowedScopes' | 'allowedGameIds'> {
+  return {
+    ...(tenant.scopes.length < ALL_SCOPES.length && { allowedScopes: tenant.scopes }),
+    ...(!tenant.game_ids.includes('*') && { allowedGameIds: tenant.game_ids }),
+  };
+}
+
+/** Whether the tenant may read a stored persona / trait memory, judged by its metadata */
+export function canReadMetadata(tenant: TenantContext, metadata: Record<string, any> | undefined): boolean {
+  const scope: PersonaScope = metadata?.persona_scope || 'global';
+  return canReadScope(tenant, scope) && (scope !== 'game' || canUseGame(tenant, metadata?.game_id));
+}
+
+/** Outcome of provisioning players for a tenant, by player id */
+export type ProvisionResult = { provisioned: string[]; already_owned: string[]; conflicts: string[] };
+
+/**
+ * Assign players to a tenant. Writes never claim a player: an admin provisions them, which is
+ * also how players saved before tenants (or with legacy keys) move to a studio. Players another
+ * tenant owns are left alone and reported as conflicts. Null for unknown tenants.
+ */
+export async function provisionPlayers(tenantId: string, playerIds: string[]): Promise<ProvisionResult | null> {
+  if (!mongoose.isValidObjectId(tenantId) || !await TenantModel.exists({ _id: tenantId })) return null;
+  const tenant = new mongoose.Types.ObjectId(tenantId);
+  const ids = [...new Set(playerIds)];
+
+  const written = await PlayerOwnerModel.bulkWrite(ids.map(id => ({
+    updateOne: { filter: { _id: id }, update: { $setOnInsert: { tenant_id: tenant } }, upsert: true },
+  })), { ordered: false });
+  const inserted = new Set(Object.values(written.upsertedIds).map(String));
+  const owners = await PlayerOwnerModel.find({ _id: { $in: ids } }).lean();
+  const ownedHere = new Set(owners.filter(o => o.tenant_id.equals(tenant)).map(o => o._id));
+
+  return {
+    provisioned: ids.filter(id => ownedHere.has(id) && inserted.has(id)),
+    already_owned: ids.filter(id => ownedHere.has(id) && !inserted.has(id)),
+    conflicts: ids.filter(id => !ownedHere.has(id)),
+  };
+}
+
+/** Take a player away from a tenant (it becomes unprovisioned); false when the tenant does not own it */
+export async function releasePlayer(tenantId: string, playerId: string): Promise<boolean> {
+  if (!mongoose.isValidObjectId(tenantId)) return false;
+  const { deletedCount } = await PlayerOwnerModel.deleteOne({ _id: playerId, tenant_id: tenantId });
+  return deletedCount > 0;
+}
+
+/**
+ * Who owns a player, from the tenant's point of view. Players no tenant was provisioned are only
+ * readable by legacy keys: their data (if any) predates tenants or came from ENV.API_KEYS.
+ * A session request sees every player but its own as foreign.
+ */
+export async function playerOwnership(tenant: TenantContext, playerId: string): Promise<'owned' | 'unprovisioned' | 'foreign'> {
+  if (tenant.session_player !== undefined && playerId !== tenant.session_player) return 'foreign';
+  if (tenant.legacy) return 'owned';
+  const owner = await PlayerOwnerModel.findById(playerId).lean();
+  if (!owner) return 'unprovisioned';
+  return String(owner.tenant_id) === tenant.id ? 'owned' : 'foreign';
+}
+
+/** Why a tenant may not save a run: the run's game is not theirs, or the player is not theirs */
+export type WriteDenial = { error: 'game_not_allowed' | 'player_not_owned' | 'player_not_provisioned'; message: string };
+
+/** Check that the tenant owns a player it writes for (saves, sessions); null when allowed */
+export async function authorizePlayerWrite(tenant: TenantContext, playerId: string): Promise<WriteDenial | null> {
+  const ownership = await playerOwnership(tenant, playerId);
+  if (ownership === 'foreign') return { error: 'player_not_owned', message: 'Player belongs to another studio' };
+  if (ownership === 'unprovisioned') return { error: 'player_not_provisioned', message: 'Player is not provisioned for this studio' };
+  return null;
+}
+
+/** Check everything a run save touches; null when allowed */
+export async function authorizeRunWrite(tenant: TenantContext, p: ServerInput): Promise<WriteDenial | null> {
+  if (tenant.session_player !== undefined && p.player_id !== tenant.session_player) {
+    return { error: 'player_not_owned', message: 'Session token is for a different player' };
+  }
+  const gameId = p.game_context?.game_id ?? ENV.GAME_ID;
+  if (!canUseGame(tenant, gameId)) {
+    return { error: 'game_not_allowed', message: `API key may not write to game ${gameId}` };
+  }
+  return authorizePlayerWrite(tenant, p.player_id);
+}
@@ -1,164 +1,296 @@
 // src/traitEngine.ts
-import type { Stats, Traits } from './types.ts';
-
-export function computeTraits(stats: Stats, prev?: Traits): Traits {
-  // Mashing intensity affects aggression and goal_focus (high mashing = more aggressive, more focused)
-  const mashingBonus = stats.mashing_intensity ? Math.min(stats.mashing_intensity, 1) * 0.3 : 0;
-  
-  const aggressionRaw   = (stats.combats_initiated * 1.0 + stats.combats_won * 0.5) + mashingBonus;
-  const puzzleRaw       = stats.riddles_correct * 1.0 + (stats.riddles_attempted - stats.riddles_correct) * 0.2;
-  const curiosityRaw    = stats.collectibles_found * 0.7 + Math.min(stats.distance_traveled/500, 1) * 0.3;
-  const resilienceRaw   = stats.retries * 0.8 + stats.deaths * 0.4 - Math.min(stats.time_s/600, 1) * 0.2;
-  const independenceRaw = (stats.hint_offers > 0 && stats.hints_used === 0) ? 1 : Math.max(0, 1 - stats.hints_used * 0.5);
-  const goalRaw         = (stats.time_s < 180 ? 1 : Math.max(0, 1 - (stats.time_s-180)/300)) + (stats.retries === 0 ? 0.2 : 0) + mashingBonus;
+import type { BlendState, ServerInput, Stats, Traits } from './types.ts';
+import { DEFAULT_TRAIT_MODEL } from './traitModel.ts';
+import { BUILTIN_TRAITS, sortTraitNames, traitDefaults, traitLabel, traitNames } from './traitRegistry.ts';
+import type { TraitModel, TraitTerm } from './traitModel.ts';
 
+/** Neutral traits used when a player has no persona yet */
+export const DEFAULT_TRAITS: Traits = {
+  aggression: 0.5, stealth: 0.5, curiosity: 0.5,
+  puzzle_affinity: 0.5, independence: 0.5, resilience: 0.5, goal_focus: 0.5,
+};
+
+/** The parts of a run trait terms read - stats, plus the outcome and event counts when sent */
+export type TraitInput = Pick<ServerInput, 'stats'> & Partial<Pick<ServerInput, 'run_outcome' | 'events_digest'>>;
+
+// Built-in stat, or a namespaced game metric from stats.custom (already aggregated at ingest); undefined when not sent
+const statValue = (stats: Stats, stat: string): number | undefined => {
+  const v = (stats as Record<string, unknown>)[stat] ?? stats.custom?.[stat];
+  return typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+};
+
+/**
+ * Whether the run carries what a term reads: stat terms need their stat (built-in counters are
+ * optional from schema 1.1, custom metrics may be left out), outcome terms the run outcome.
+ * An empty or missing events_digest means no events, so event terms always apply.
+ */
+function hasInput(term: TraitTerm, run: TraitInput): boolean {
+  switch (term.kind) {
+    case 'outcome': return run.run_outcome !== undefined;
+    case 'event':   return true;
+    default:        return statValue(run.stats, term.stat) !== undefined;
+  }
+}
+
+// Total count of events_digest entries matching an exact type or a "prefix.*" pattern
+const eventCount = (run: TraitInput, event: string): number => {
+  const prefix = event.endsWith('.*') ? event.slice(0, -1) : null;
+  return (run.events_digest ?? [])
+    .filter(e => prefix ? e.type.startsWith(prefix) : e.type === event)
+    .reduce((sum, e) => sum + (Number.isFinite(e.count) ? Math.max(0, e.count) : 0), 0);
+};
+
+/** Signal a term reads: stat value, event count, or 1/0 for an outcome match */
+function termValue(term: TraitTerm, run: TraitInput): number {
+  switch (term.kind) {
+    case 'outcome': {
+      const o = run.run_outcome;
+      if (!o) return 0;
+      return (term.path === undefined || o.path === term.path)
+        && (term.result === undefined || o.result === term.result) ? 1 : 0;
+    }
+    case 'event': return eventCount(run, term.event);
+    default:      return statValue(run.stats, term.stat) ?? 0;
+  }
+}
+
+/** Amount a single term adds to its trait's raw score for this run (0 when its input is missing) */
+export function termContribution(term: TraitTerm, run: TraitInput): number {
+  if (!hasInput(term, run)) return 0;
+  const v = termValue(term, run);
+  switch (term.kind) {
+    case 'stat':
+    case 'event': {
+      const scaled = v / term.scale;
+      return term.weight * (term.cap === undefined ? scaled : Math.min(scaled, term.cap));
+    }
+    case 'outcome':
+      return term.weight * v;
+    case 'when': {
+      const hit =
+        term.op === 'gt'  ? v >  term.value :
+        term.op === 'gte' ? v >= term.value :
+        term.op === 'lt'  ? v <  term.value :
+        term.op === 'lte' ? v <= term.value :
+                            v === term.value;
+      return hit ? term.weight : 0;
+    }
+    case 'ramp':
+      return term.weight * (1 - Math.max(0, Math.min(1, (v - term.from) / (term.to - term.from))));
+  }
+}
+
+/**
+ * Trait values implied by this run alone, before blending. Terms whose input the run lacks are
+ * skipped; a trait none of whose terms has an input is left out - the run says nothing about it.
+ */
+export function observeTraits(run: TraitInput, model: TraitModel = DEFAULT_TRAIT_MODEL): Partial<Traits> {
   const norm = (x:number) => Math.max(0, Math.min(1, x));
-  const blend = (c:number,p?:number)=> p==null? c : (0.6*p + 0.4*c);
-
-  const t: Traits = {
-    aggression:      blend(norm(aggressionRaw/5), prev?.aggression),
-    stealth:         blend(norm((1 - (stats.combats_initiated>0 ? 0.6 : 0) - (stats.deaths>0 ? 0.2 : 0))), prev?.stealth),
-    curiosity:       blend(norm(curiosityRaw/5), prev?.curiosity),
-    puzzle_affinity: blend(norm(puzzleRaw/3), prev?.puzzle_affinity),
-    independence:    blend(norm(independenceRaw), prev?.independence),
-    resilience:      blend(norm(resilienceRaw/3), prev?.resilience),
-    goal_focus:      blend(norm(goalRaw/1.4), prev?.goal_focus)
+  const t: Partial<Traits> = {};
+  for (const [name, formula] of Object.entries(model.traits)) {
+    const terms = formula.terms.filter(term => hasInput(term, run));
+    if (formula.terms.length > 0 && terms.length === 0) continue;
+    const raw = terms.reduce((sum, term) => sum + termContribution(term, run), formula.base);
+    t[name] = norm(raw / formula.normalizer);
+  }
+  return t;
+}
+
+/**
+ * Blend a run's stats into bare previous traits (no blend state); without `prev` the run's own traits
+ * are returned. Outcome and event terms need the whole run - use blendTraits for those.
+ */
+export function computeTraits(stats: Stats, prev?: Traits, model: TraitModel = DEFAULT_TRAIT_MODEL): Traits {
+  if (!prev) return roundTraits({ ...traitDefaults(model), ...observeTraits({ stats }, model) } as Traits);
+  return blendTraits({ stats }, { traits: prev }, model).traits;
+}
+
+/** Persona a run is blended into - blend_state is missing on personas saved before it was tracked */
+export type BlendPrior = { traits: Traits; blend_state?: BlendState | undefined };
+
+export type BlendResult = {
+  traits: Traits;
+  confidence: Record<string, number>;
+  blend_state: BlendState;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Past runs' weight left after the gap since the previous run (halves every half_life_days) */
+export function decayedRuns(state: BlendState, completedAt: string, model: TraitModel = DEFAULT_TRAIT_MODEL): number {
+  const last = Date.parse(state.last_completed_at ?? '');
+  const now = Date.parse(completedAt);
+  if (Number.isNaN(last) || Number.isNaN(now)) return state.effective_runs;
+  const days = Math.max(0, (now - last) / DAY_MS);
+  return state.effective_runs * Math.pow(0.5, days / model.blend.half_life_days);
+}
+
+/**
+ * Blend one run into a persona.
+ * The run's weight is 1 / (prior_runs + decayed past runs + 1): early runs and runs after a long
+ * break move traits further, established personas move slowly (never less than min_new_weight).
+ * `runWeight` scales that weight and the evidence the run adds, for scopes a run only partly belongs to.
+ * Confidence per trait = evidence (effective_runs vs prior_runs) x consistency between runs.
+ */
+export function blendTraits(
+  run: TraitInput,
+  prev: BlendPrior | undefined,
+  model: TraitModel = DEFAULT_TRAIT_MODEL,
+  completedAt: string = new Date().toISOString(),
+  runWeight = 1 // share of a full run this scope gets (e.g. a secondary genre), 0..1
+): BlendResult {
+  const { prior_runs, min_new_weight } = model.blend;
+  const observed = observeTraits(run, model);
+  const prevTraits = prev?.traits ?? traitDefaults(model);
+  // A legacy persona without blend state counts as a single run
+  const state: BlendState = prev?.blend_state ?? {
+    run_count: prev ? 1 : 0,
+    effective_runs: prev ? 1 : 0,
+    consistency: {},
+  };
+
+  const pastRuns = decayedRuns(state, completedAt, model);
+  const w = runWeight * Math.min(1, Math.max(min_new_weight, 1 / (prior_runs + pastRuns + 1)));
+  const effectiveRuns = pastRuns + runWeight;
+  const evidence = effectiveRuns / (effectiveRuns + prior_runs);
+  const pastEvidence = pastRuns / (pastRuns + prior_runs);
+
+  const traits = {} as Traits;
+  const confidence: Record<string, number> = {};
+  const consistency: Record<string, number> = {};
+  for (const [name, formula] of Object.entries(model.traits)) {
+    // A persona saved before this trait existed blends from the trait's declared default
+    const p = prevTraits[name] ?? formula.default;
+    const o = observed[name];
+    const prevConsistency = state.consistency[name];
+    if (o === undefined) {
+      // The run had no input for this trait: it keeps its value, and gains no evidence
+      traits[name] = p;
+      if (prevConsistency !== undefined) consistency[name] = prevConsistency;
+      confidence[name] = round(pastEvidence * (prevConsistency ?? 0));
+      continue;
+    }
+    traits[name] = (1 - w) * p + w * o;
+
+    // Nothing to disagree with on the first run; afterwards track how close runs land to the persona
+    const agreement = 1 - Math.abs(o - p);
+    consistency[name] = round(prevConsistency !== undefined ? (1 - w) * prevConsistency + w * agreement
+      : state.run_count === 0 ? 1 : agreement);
+    confidence[name] = round(evidence * consistency[name]!);
+  }
+
+  const last = state.last_completed_at;
+  return {
+    traits: roundTraits(traits),
+    confidence,
+    blend_state: {
+      run_count: state.run_count + 1,
+      effective_runs: round(effectiveRuns),
+      consistency,
+      last_completed_at: last && Date.parse(last) > Date.parse(completedAt) ? last : completedAt,
+    },
   };
-  return roundTraits(t);
 }
 
 function round(n:number){ return Number(n.toFixed(2)); }
 export function roundTraits(t:Traits):Traits {
-  return {
-    aggression:round(t.aggression), stealth:round(t.stealth), curiosity:round(t.curiosity),
-    puzzle_affinity:round(t.puzzle_affinity), independence:round(t.independence),
-    resilience:round(t.resilience), goal_focus:round(t.goal_focus)
-  };
+  const out = {} as Traits;
+  for (const [name, value] of Object.entries(t)) out[name] = round(value);
+  return out;
 }
 
-export function personaText(t: Traits): string {
+// Value above which a custom trait shows up in persona_text ("high <label>")
+const CUSTOM_TRAIT_TEXT_ABOVE = 0.6;
+
+const isCustomTrait = (name: string) => !(BUILTIN_TRAITS as readonly string[]).includes(name);
+
+// Term reasons are sentence fragments ("found {value} collectible(s)"); {value} / {pct} filled from the run
+const renderReason = (template: string, value: number) => template
+  .replace(/\{value\}/g, String(value))
+  .replace(/\{pct\}/g, (value * 100).toFixed(0));
+
+/**
+ * One-line description of a persona. Built-in traits use fixed phrases; custom traits - those of
+ * `model`, plus any others the persona carries - read "high <label>" once they pass 0.6.
+ * `labels` overrides trait labels (stored personas keep the label they were saved with).
+ */
+export function personaText(t: Traits, model: TraitModel = DEFAULT_TRAIT_MODEL, labels: Record<string, string> = {}): string {
   const bits:string[] = [];
   if (t.puzzle_affinity>0.6) bits.push("puzzle-leaning");
   if (t.curiosity>0.6) bits.push("exploration-oriented");
   if (t.aggression>0.5) bits.push("combat-inclined");
   if (t.independence>0.6) bits.push("rarely uses hints");
   if (t.resilience>0.6) bits.push("bounces back after failures");
+
+  const custom = sortTraitNames([...new Set([...traitNames(model), ...Object.keys(t)])]).filter(isCustomTrait);
+  for (const name of custom) {
+    const value = t[name];
+    if (value !== undefined && value > CUSTOM_TRAIT_TEXT_ABOVE) {
+      bits.push(`high ${(labels[name] ?? traitLabel(name, model)).toLowerCase()}`);
+    }
+  }
   if (bits.length===0) bits.push("balanced playstyle");
   return `Shows ${bits.join(", ")}; goal focus ${Math.round(t.goal_focus*100)}%.`;
 }
 
-export function topSignals(stats: Stats): string[] {
+/**
+ * Up to three gameplay highlights of a run: the built-in stat signals, then the reasons of
+ * the model's custom trait terms that contributed (in trait order).
+ */
+export function topSignals(run: TraitInput, model: TraitModel = DEFAULT_TRAIT_MODEL): string[] {
+  const { stats } = run;
   const s:string[] = [];
-  if (stats.riddles_correct>0) s.push(`Solved ${stats.riddles_correct} riddle(s)`);
-  if (stats.combats_initiated>0) s.push(`Started ${stats.combats_initiated} combat(s), won ${stats.combats_won}`);
-  if (stats.collectibles_found>0) s.push(`Found ${stats.collectibles_found} collectible(s)`);
-  if (stats.hints_used>0) s.push(`Used ${stats.hints_used} hint(s)`);
-  if (stats.retries>0) s.push(`Retried ${stats.retries} time(s)`);
+  if (stats.riddles_correct) s.push(`Solved ${stats.riddles_correct} riddle(s)`);
+  if (stats.combats_initiated) s.push(`Started ${stats.combats_initiated} combat(s), won ${stats.combats_won ?? 0}`);
+  if (stats.collectibles_found) s.push(`Found ${stats.collectibles_found} collectible(s)`);
+  if (stats.hints_used) s.push(`Used ${stats.hints_used} hint(s)`);
+  if (stats.retries) s.push(`Retried ${stats.retries} time(s)`);
+
+  for (const name of traitNames(model).filter(isCustomTrait)) {
+    for (const term of model.traits[name]?.terms ?? []) {
+      if (!term.reason || termContribution(term, run) === 0) continue;
+      const signal = renderReason(term.reason, termValue(term, run));
+      const text = signal.charAt(0).toUpperCase() + signal.slice(1);
+      if (!s.includes(text)) s.push(text);
+    }
+  }
   return s.slice(0,3);
 }
 
 /**
- * Generate trait explanations showing how stats affected each trait
+ * Generate trait explanations showing how stats, the run outcome and events affected each trait.
+ * Reasons come from the same model terms blendTraits uses, so they never drift from the math.
  */
 export function generateTraitExplanations(
-  stats: Stats,
+  run: TraitInput,
   prevTraits: Traits | undefined,
-  newTraits: Traits
+  newTraits: Traits,
+  model: TraitModel = DEFAULT_TRAIT_MODEL
 ): string[] {
   const explanations: string[] = [];
-  const prev = prevTraits || {
-    aggression: 0.5, stealth: 0.5, curiosity: 0.5,
-    puzzle_affinity: 0.5, independence: 0.5, resilience: 0.5, goal_focus: 0.5
-  };
-  
+  const prev = prevTraits || traitDefaults(model);
+
   const formatChange = (traitName: string, prevVal: number, newVal: number, reason: string) => {
     const change = newVal > prevVal ? 'increased' : newVal < prevVal ? 'decreased' : 'unchanged';
-    const prevStr = prevTraits ? prevVal.toFixed(2) : 'default (0.50)';
+    const prevStr = prevTraits ? prevVal.toFixed(2) : `default (${prevVal.toFixed(2)})`;
     return `${traitName}: ${change} from ${prevStr} to ${newVal.toFixed(2)}. ${reason}`;
   };
 
-  // Aggression
-  const aggReasons: string[] = [];
-  if (stats.combats_initiated > 0) aggReasons.push(`Started ${stats.combats_initiated} combat(s)`);
-  if (stats.combats_won > 0) aggReasons.push(`won ${stats.combats_won} combat(s)`);
-  if (stats.mashing_intensity && stats.mashing_intensity > 0.5) aggReasons.push(`high button mashing intensity (${(stats.mashing_intensity * 100).toFixed(0)}%)`);
-  explanations.push(formatChange(
-    'Aggression',
-    prev.aggression,
-    newTraits.aggression,
-    aggReasons.length > 0 ? `Affected by: ${aggReasons.join(', ')}.` : 'No combat activity or mashing detected.'
-  ));
-
-  // Stealth
-  const stealthReasons: string[] = [];
-  if (stats.combats_initiated > 0) stealthReasons.push(`combat engagement (${stats.combats_initiated} combat(s))`);
-  if (stats.deaths > 0) stealthReasons.push(`death(s) (${stats.deaths})`);
-  explanations.push(formatChange(
-    'Stealth',
-    prev.stealth,
-    newTraits.stealth,
-    stealthReasons.length > 0 ? `Decreased due to: ${stealthReasons.join(', ')}.` : 'No combat or deaths detected.'
-  ));
-
-  // Curiosity
-  const curiosityReasons: string[] = [];
-  if (stats.collectibles_found > 0) curiosityReasons.push(`found ${stats.collectibles_found} collectible(s)`);
-  if (stats.distance_traveled > 0) curiosityReasons.push(`traveled ${stats.distance_traveled} units`);
-  explanations.push(formatChange(
-    'Curiosity',
-    prev.curiosity,
-    newTraits.curiosity,
-    curiosityReasons.length > 0 ? `Affected by: ${curiosityReasons.join(', ')}.` : 'Limited exploration and no collectibles found.'
-  ));
-
-  // Puzzle Affinity
-  const puzzleReasons: string[] = [];
-  if (stats.riddles_correct > 0) puzzleReasons.push(`solved ${stats.riddles_correct} riddle(s) correctly`);
-  if (stats.riddles_attempted > stats.riddles_correct) puzzleReasons.push(`attempted ${stats.riddles_attempted - stats.riddles_correct} additional riddle(s)`);
-  explanations.push(formatChange(
-    'Puzzle Affinity',
-    prev.puzzle_affinity,
-    newTraits.puzzle_affinity,
-    puzzleReasons.length > 0 ? `Affected by: ${puzzleReasons.join(', ')}.` : 'No puzzle-solving activity detected.'
-  ));
-
-  // Independence
-  const indepReasons: string[] = [];
-  if (stats.hint_offers > 0 && stats.hints_used === 0) {
-    indepReasons.push(`hints offered but none used`);
-  } else if (stats.hints_used > 0) {
-    indepReasons.push(`used ${stats.hints_used} hint(s)`);
+  for (const [name, formula] of Object.entries(model.traits)) {
+    const newVal = newTraits[name];
+    if (newVal === undefined) continue;
+
+    const reasons = formula.terms
+      .filter(term => term.reason && termContribution(term, run) !== 0)
+      .map(term => renderReason(term.reason!, termValue(term, run)));
+
+    explanations.push(formatChange(
+      formula.label,
+      prev[name] ?? formula.default,
+      newVal,
+      reasons.length > 0 ? `${formula.explain.prefix}: ${reasons.join(', ')}.` : formula.explain.idle
+    ));
   }
-  explanations.push(formatChange(
-    'Independence',
-    prev.independence,
-    newTraits.independence,
-    indepReasons.length > 0 ? `Affected by: ${indepReasons.join(', ')}.` : 'No hint activity detected.'
-  ));
-
-  // Resilience
-  const resReasons: string[] = [];
-  if (stats.retries > 0) resReasons.push(`retried ${stats.retries} time(s) after failure`);
-  if (stats.deaths > 0) resReasons.push(`experienced ${stats.deaths} death(s) but persisted`);
-  if (stats.time_s < 600) resReasons.push(`completed quickly (${stats.time_s}s), potentially avoiding challenges`);
-  explanations.push(formatChange(
-    'Resilience',
-    prev.resilience,
-    newTraits.resilience,
-    resReasons.length > 0 ? `Affected by: ${resReasons.join(', ')}.` : 'No failure recovery data detected.'
-  ));
-
-  // Goal Focus
-  const goalReasons: string[] = [];
-  if (stats.time_s < 180) goalReasons.push(`fast completion (${stats.time_s}s)`);
-  if (stats.retries === 0) goalReasons.push(`no retries needed`);
-  if (stats.mashing_intensity && stats.mashing_intensity > 0.5) goalReasons.push(`high button mashing intensity (${(stats.mashing_intensity * 100).toFixed(0)}%) indicating focused effort`);
-  explanations.push(formatChange(
-    'Goal Focus',
-    prev.goal_focus,
-    newTraits.goal_focus,
-    goalReasons.length > 0 ? `Affected by: ${goalReasons.join(', ')}.` : 'Standard completion time and retries.'
-  ));
 
   return explanations;
 }
@@ -0,0 +1,254 @@
+// src/traitModel.ts
+import { z } from "zod";
+import { METRIC_NAME_RE, RunPathZ, RunResultZ, StatsZ } from "./types.ts";
+import { TRAIT_NAME_RE } from "./traitRegistry.ts";
+
+const STAT_NAMES = Object.keys(StatsZ.shape);
+
+// A term adds `weight * f(signal)` to a trait's raw score, reading a stat, the run outcome or events_digest.
+// `reason` is cited in trait explanations whenever the term contributes, with
+// `{value}` replaced by the stat value (or event count) and `{pct}` by the value as a percentage.
+
+// weight * min(stat / scale, cap)
+const StatTermZ = z.object({
+  kind: z.literal("stat"),
+  stat: z.string(),
+  weight: z.number(),
+  scale: z.number().positive().default(1),
+  cap: z.number().optional(),
+  reason: z.string().optional(),
+});
+
+// weight when `stat <op> value` holds, else 0
+const WhenTermZ = z.object({
+  kind: z.literal("when"),
+  stat: z.string(),
+  op: z.enum(["gt", "gte", "lt", "lte", "eq"]),
+  value: z.number(),
+  weight: z.number(),
+  reason: z.string().optional(),
+});
+
+// weight at or below `from`, falling linearly to 0 at `to`
+const RampTermZ = z.object({
+  kind: z.literal("ramp"),
+  stat: z.string(),
+  from: z.number(),
+  to: z.number(),
+  weight: z.number(),
+  reason: z.string().optional(),
+}).refine(t => t.to > t.from, { message: "ramp.to must be greater than ramp.from" });
+
+// weight when the run outcome matches every given field (path and/or result)
+const OutcomeTermZ = z.object({
+  kind: z.literal("outcome"),
+  path: RunPathZ.optional(),
+  result: RunResultZ.optional(),
+  weight: z.number(),
+  reason: z.string().optional(),
+}).refine(t => t.path !== undefined || t.result !== undefined, { message: "outcome term needs a path or a result" });
+
+// weight * min(count / scale, cap), count summed over events_digest entries matching `event`
+// ("combat.win" matches exactly, "combat.*" matches every "combat." event)
+const EventTermZ = z.object({
+  kind: z.literal("event"),
+  event: z.string().regex(/^[A-Za-z0-9_.-]+(\.\*)?$/),
+  weight: z.number(),
+  scale: z.number().positive().default(1),
+  cap: z.number().optional(),
+  reason: z.string().optional(),
+});
+
+export const TraitTermZ = z.discriminatedUnion("kind", [StatTermZ, WhenTermZ, RampTermZ, OutcomeTermZ, EventTermZ]);
+export type TraitTerm = z.infer<typeof TraitTermZ>;
+
+// trait = clamp01((base + Σ terms) / normalizer), then blended with the previous value
+export const TraitFormulaZ = z.object({
+  label: z.string(),
+  default: z.number().min(0).max(1).default(0.5), // value before a player's first run
+  base: z.number().default(0),
+  terms: z.array(TraitTermZ),
+  normalizer: z.number().positive().default(1),
+  explain: z.object({
+    prefix: z.string().default("Affected by"), // "Affected by: <reasons>."
+    idle: z.string(),                          // used when no term contributed
+  }),
+});
+export type TraitFormula = z.infer<typeof TraitFormulaZ>;
+
+// A game-defined metric accepted in `stats.custom` and usable as a term `stat`
+export const MetricDefZ = z.object({
+  type: z.enum(["number", "integer", "boolean"]).default("number"), // boolean metrics are sent as 0/1
+  min: z.number().optional(),
+  max: z.number().optional(),
+  aggregation: z.enum(["sum", "avg", "min", "max", "last"]).default("last"), // how raw samples collapse to one value
+  required: z.boolean().default(false),
+  description: z.string().optional(),
+});
+export type MetricDef = z.infer<typeof MetricDefZ>;
+
+export const TraitModelZ = z.object({
+  version: z.string(),
+  game_id: z.string().optional(), // absent for the built-in default
+  // Each run's weight is 1 / (prior_runs + decayed past runs + 1), never below min_new_weight
+  blend: z.object({
+    prior_runs: z.number().nonnegative().default(2),       // evidence the trait defaults count as
+    half_life_days: z.number().positive().default(60),     // past runs lose half their weight per half-life of inactivity
+    min_new_weight: z.number().min(0).max(1).default(0.1), // floor so long-time players can still change
+  }).prefault({}),
+  // Cross-scope resolution: each stored scope weighs weights[scope] * runs / (runs + prior_runs)
+  resolve: z.object({
+    weights: z.object({
+      game: z.number().nonnegative().default(4),
+      genre: z.number().nonnegative().default(2),
+      platform: z.number().nonnegative().default(1),
+      global: z.number().nonnegative().default(1),
+    }).prefault({}),
+  }).prefault({}),
+  metrics: z.record(z.string().regex(METRIC_NAME_RE), MetricDefZ).default({}),
+  traits: z.object({
+    aggression: TraitFormulaZ,
+    stealth: TraitFormulaZ,
+    curiosity: TraitFormulaZ,
+    puzzle_affinity: TraitFormulaZ,
+    independence: TraitFormulaZ,
+    resilience: TraitFormulaZ,
+    goal_focus: TraitFormulaZ,
+  }).catchall(TraitFormulaZ), // extra keys declare custom traits (e.g. social, risk_taking)
+}).superRefine((model, ctx) => {
+  for (const trait of Object.keys(model.traits)) {
+    if (!TRAIT_NAME_RE.test(trait)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["traits", trait],
+        message: `Trait name "${trait}" must be lowercase snake_case (max 40 chars)`,
+      });
+    }
+  }
+
+  // Every stat term must read a built-in stat or a metric this model declares
+  for (const [trait, formula] of Object.entries(model.traits)) {
+    formula.terms.forEach((term, i) => {
+      if (!("stat" in term)) return;
+      if (!STAT_NAMES.includes(term.stat) && !(term.stat in model.metrics)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["traits", trait, "terms", i, "stat"],
+          message: `Unknown stat "${term.stat}" (declare custom metrics under "metrics")`,
+        });
+      }
+    });
+  }
+});
+export type TraitModel = z.infer<typeof TraitModelZ>;
+
+/** Built-in model - the original EchoRun formulas plus run path / result credit */
+export const DEFAULT_TRAIT_MODEL: TraitModel = TraitModelZ.parse({
+  version: "1",
+  blend: { prior_runs: 2, half_life_days: 60, min_new_weight: 0.1 },
+  traits: {
+    aggression: {
+      label: "Aggression",
+      terms: [
+        { kind: "stat", stat: "combats_initiated", weight: 1.0, reason: "Started {value} combat(s)" },
+        { kind: "stat", stat: "combats_won", weight: 0.5, reason: "won {value} combat(s)" },
+        { kind: "stat", stat: "mashing_intensity", weight: 0.3, cap: 1, reason: "button mashing intensity ({pct}%)" },
+        { kind: "outcome", path: "combat", weight: 0.5, reason: "chose the combat path" },
+      ],
+      normalizer: 5,
+      explain: { idle: "No combat activity or mashing detected." },
+    },
+    stealth: {
+      label: "Stealth",
+      base: 1,
+      terms: [
+        { kind: "when", stat: "combats_initiated", op: "gt", value: 0, weight: -0.6, reason: "combat engagement ({value} combat(s))" },
+        { kind: "when", stat: "deaths", op: "gt", value: 0, weight: -0.2, reason: "death(s) ({value})" },
+      ],
+      explain: { prefix: "Decreased due to", idle: "No combat or deaths detected." },
+    },
+    curiosity: {
+      label: "Curiosity",
+      terms: [
+        { kind: "stat", stat: "collectibles_found", weight: 0.7, reason: "found {value} collectible(s)" },
+        { kind: "stat", stat: "distance_traveled", weight: 0.3, scale: 500, cap: 1, reason: "traveled {value} units" },
+        { kind: "outcome", path: "exploration", weight: 0.5, reason: "chose the exploration path" },
+      ],
+      normalizer: 5,
+      explain: { idle: "Limited exploration and no collectibles found." },
+    },
+    puzzle_affinity: {
+      label: "Puzzle Affinity",
+      terms: [
+        { kind: "stat", stat: "riddles_correct", weight: 0.8, reason: "solved {value} riddle(s) correctly" },
+        { kind: "stat", stat: "riddles_attempted", weight: 0.2, reason: "attempted {value} riddle(s)" },
+        { kind: "outcome", path: "puzzle", weight: 0.3, reason: "chose the puzzle path" },
+        { kind: "outcome", path: "puzzle", result: "win", weight: 0.3, reason: "won through the puzzle path" },
+      ],
+      normalizer: 3,
+      explain: { idle: "No puzzle-solving activity detected." },
+    },
+    independence: {
+      label: "Independence",
+      base: 1,
+      terms: [
+        { kind: "stat", stat: "hints_used", weight: -0.5, reason: "used {value} hint(s)" },
+      ],
+      explain: { idle: "No hints used." },
+    },
+    resilience: {
+      label: "Resilience",
+      terms: [
+        { kind: "stat", stat: "retries", weight: 0.8, reason: "retried {value} time(s) after failure" },
+        { kind: "stat", stat: "deaths", weight: 0.4, reason: "experienced {value} death(s) but persisted" },
+        { kind: "stat", stat: "time_s", weight: -0.2, scale: 600, cap: 1, reason: "run length ({value}s) reduces the signal" },
+      ],
+      normalizer: 3,
+      explain: { idle: "No failure recovery data detected." },
+    },
+    goal_focus: {
+      label: "Goal Focus",
+      terms: [
+        { kind: "ramp", stat: "time_s", from: 180, to: 480, weight: 1, reason: "completion time ({value}s)" },
+        { kind: "when", stat: "retries", op: "eq", value: 0, weight: 0.2, reason: "no retries needed" },
+        { kind: "stat", stat: "mashing_intensity", weight: 0.3, cap: 1, reason: "button mashing intensity ({pct}%) indicating focused effort" },
+        { kind: "outcome", result: "win", weight: 0.1, reason: "won the run" },
+      ],
+      normalizer: 1.4,
+      explain: { idle: "Standard completion time and retries." },
+    },
+  },
+});
+
+const aggregate = (values: number[], how: MetricDef["aggregation"]): number => {
+  switch (how) {
+    case "sum":  return values.reduce((a, b) => a + b, 0);
+    case "avg":  return values.reduce((a, b) => a + b, 0) / values.length;
+    case "min":  return Math.min(...values);
+    case "max":  return Math.max(...values);
+    case "last": return values[values.length - 1]!;
+  }
+};
+
+/**
+ * Ingest schema for `stats.custom` under this model: only declared metrics are accepted,
+ * sample arrays are collapsed with the metric's aggregation, then type and range are checked.
+ */
+export function customMetricsSchema(model: TraitModel) {
+  const shape: Record<string, z.ZodType> = {};
+  for (const [name, def] of Object.entries(model.metrics)) {
+    let value = z.number();
+    if (def.type === "integer") value = value.int();
+    if (def.type === "boolean") value = value.int().min(0).max(1);
+    if (def.min !== undefined) value = value.min(def.min);
+    if (def.max !== undefined) value = value.max(def.max);
+
+    const metric = z.union([z.number(), z.array(z.number()).min(1)], {
+      error: `${name} must be a number or a non-empty array of numbers`,
+    })
+      .transform(v => Array.isArray(v) ? aggregate(v, def.aggregation) : v)
+      .pipe(value);
+    shape[name] = def.required ? metric : metric.optional();
+  }
+  return z.object(shape).strict();
+}
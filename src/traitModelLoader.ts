@@ -0,0 +1,71 @@
+// src/traitModelLoader.ts
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { ENV } from './config.ts';
+import { logger } from './logger.ts';
+import { TraitModelModel } from './models/TraitModel.model.ts';
+import { DEFAULT_TRAIT_MODEL, TraitModelZ } from './traitModel.ts';
+import type { TraitModel } from './traitModel.ts';
+
+const CACHE_TTL_MS = 60 * 1000;
+const cache = new Map<string, { model: TraitModel; loadedAt: number }>();
+
+/** A game's trait model could not be read (Mongo or file error) or is invalid, and none was loaded before */
+export class TraitModelUnavailableError extends Error {
+  constructor(readonly gameId: string, reason: string) {
+    super(`Trait model for game ${gameId} is unavailable: ${reason}`);
+    this.name = 'TraitModelUnavailableError';
+  }
+}
+
+async function fromMongo(gameId: string): Promise<unknown | null> {
+  const doc = await TraitModelModel.findOne({ game_id: gameId, active: true }).sort({ createdAt: -1 }).lean();
+  return doc ? { ...doc.model, game_id: gameId, version: doc.version } : null;
+}
+
+async function fromFile(gameId: string): Promise<unknown | null> {
+  // Game ids become file names - refuse anything that could escape the directory
+  if (!/^[\w.-]+$/.test(gameId)) return null;
+  try {
+    const raw = await readFile(join(ENV.TRAIT_MODEL_DIR, `${gameId}.json`), 'utf8');
+    return { game_id: gameId, ...JSON.parse(raw) };
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+/**
+ * Resolve the trait model for a game: active Mongo `trait_models` document first,
+ * then `<TRAIT_MODEL_DIR>/<game_id>.json`, then the built-in default (only when the game has
+ * neither). An invalid config counts as a failed read, and a failed read is never cached: the
+ * last model loaded for the game keeps being served, or TraitModelUnavailableError is thrown
+ * when there is none - falling back to the default would blend with the wrong model.
+ */
+export async function loadTraitModel(gameId?: string): Promise<TraitModel> {
+  if (!gameId) return DEFAULT_TRAIT_MODEL;
+
+  const cached = cache.get(gameId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.model;
+
+  let model = DEFAULT_TRAIT_MODEL;
+  for (const [source, load] of [['mongo', fromMongo], ['file', fromFile]] as const) {
+    try {
+      const raw = await load(gameId);
+      if (!raw) continue;
+      const parsed = TraitModelZ.safeParse(raw);
+      if (!parsed.success) {
+        throw new Error(`invalid ${source} config (${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')})`);
+      }
+      model = parsed.data;
+      break;
+    } catch (e: any) {
+      logger.error('Failed to load trait model', { game_id: gameId, source, error: e.message, stale: !!cached });
+      if (cached) return cached.model;
+      throw new TraitModelUnavailableError(gameId, e.message);
+    }
+  }
+
+  cache.set(gameId, { model, loadedAt: Date.now() });
+  return model;
+}
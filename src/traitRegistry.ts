@@ -0,0 +1,50 @@
+// src/traitRegistry.ts
+import type { Traits } from './types.ts';
+import type { TraitModel } from './traitModel.ts';
+
+// Traits every persona has; games may declare more in their trait model
+export const BUILTIN_TRAITS = [
+  'aggression', 'stealth', 'curiosity', 'puzzle_affinity',
+  'independence', 'resilience', 'goal_focus'
+] as const;
+export type BuiltinTrait = typeof BUILTIN_TRAITS[number];
+
+// Custom trait names end up in metadata keys and customIds
+export const TRAIT_NAME_RE = /^[a-z][a-z0-9_]{0,39}$/;
+
+/** "puzzle_affinity" -> "Puzzle Affinity" */
+export function titleCase(name: string): string {
+  return name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+/** Every trait a model computes: built-ins first, then custom traits in declaration order */
+export function traitNames(model: TraitModel): string[] {
+  const custom = Object.keys(model.traits).filter(n => !(BUILTIN_TRAITS as readonly string[]).includes(n));
+  return [...BUILTIN_TRAITS, ...custom];
+}
+
+/** Order trait names for display: built-ins in canonical order, then custom traits alphabetically */
+export function sortTraitNames(names: string[]): string[] {
+  const rank = (n: string) => {
+    const i = (BUILTIN_TRAITS as readonly string[]).indexOf(n);
+    return i === -1 ? BUILTIN_TRAITS.length : i;
+  };
+  return [...names].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+/** Display label for a trait, from the model when it declares one */
+export function traitLabel(name: string, model?: TraitModel): string {
+  return model?.traits[name]?.label ?? titleCase(name);
+}
+
+/** Starting value of every trait in the model (built-ins default to 0.5) */
+export function traitDefaults(model: TraitModel): Traits {
+  const defaults = {} as Traits;
+  for (const name of traitNames(model)) defaults[name] = model.traits[name]?.default ?? 0.5;
+  return defaults;
+}
+
+/** True once all built-in traits are present - the minimum for a usable persona */
+export function hasBuiltinTraits(traits: Partial<Record<string, number>>): traits is Traits {
+  return BUILTIN_TRAITS.every(t => traits[t] !== undefined);
+}
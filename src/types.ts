@@ -1,20 +1,56 @@
 // src/types.ts
 import { z } from "zod";
 
-export const StatsZ = z.object({
-  time_s: z.number(),
-  deaths: z.number(),
-  retries: z.number(),
-  distance_traveled: z.number(),
-  jumps: z.number(),
-  hint_offers: z.number(),
-  hints_used: z.number(),
-  riddles_attempted: z.number(),
-  riddles_correct: z.number(),
-  combats_initiated: z.number(),
-  combats_won: z.number(),
-  collectibles_found: z.number(),
-  mashing_intensity: z.number().optional(), // Button mashing speed (0.0-1.0)
+const CountZ = z.number().int().nonnegative();
+
+// Game-defined metric name, namespaced by game or genre: "racing.best_lap_s"
+export const METRIC_NAME_RE = /^[a-z][a-z0-9_]*(\.[a-z0-9_]+)+$/;
+
+// A single value, or raw samples the game's trait model aggregates (sum/avg/min/max/last)
+export const CustomMetricsZ = z.record(
+  z.string().regex(METRIC_NAME_RE, 'Custom metric names must be namespaced, e.g. "racing.best_lap_s"'),
+  z.union([z.number(), z.array(z.number()).min(1)]),
+);
+
+// Built-in counters: all required with schema_version 1.0; from 1.1 a game sends only the ones it tracks
+const BuiltinStatsZ = z.object({
+  time_s: z.number().nonnegative(),
+  deaths: CountZ,
+  retries: CountZ,
+  distance_traveled: z.number().nonnegative(),
+  jumps: CountZ,
+  hint_offers: CountZ,
+  hints_used: CountZ,
+  riddles_attempted: CountZ,
+  riddles_correct: CountZ,
+  combats_initiated: CountZ,
+  combats_won: CountZ,
+  collectibles_found: CountZ,
+});
+export const BUILTIN_STATS = Object.keys(BuiltinStatsZ.shape) as Array<keyof typeof BuiltinStatsZ.shape>;
+
+export const StatsZ = BuiltinStatsZ.partial().extend({
+  mashing_intensity: z.number().min(0).max(1).optional(), // Button mashing speed (0.0-1.0)
+  custom: CustomMetricsZ.optional(), // declared per game in its trait model (schema_version >= 1.1)
+}).superRefine((s, ctx) => {
+  // Reject stats that cannot happen in a real run
+  const bounded: Array<[keyof typeof s, keyof typeof s]> = [
+    ['combats_won', 'combats_initiated'],
+    ['riddles_correct', 'riddles_attempted'],
+    ['hints_used', 'hint_offers'],
+  ];
+  for (const [part, whole] of bounded) {
+    if (s[part] === undefined) continue;
+    if (s[whole] === undefined) {
+      ctx.addIssue({ code: 'custom', path: [whole], message: `${part} needs ${whole}` });
+    } else if (Number(s[part]) > Number(s[whole])) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [part],
+        message: `${part} (${s[part]}) cannot exceed ${whole} (${s[whole]})`,
+      });
+    }
+  }
 });
 export type Stats = z.infer<typeof StatsZ>;
 
@@ -42,17 +78,26 @@ export const KnobsZ = z.object({
   breadcrumb_brightness: z.number(),
 });
 
+// ServerInput schema versions this server accepts
+export const SUPPORTED_SCHEMA_VERSIONS = ['1.0', '1.1'] as const;
+export const SchemaVersionZ = z.enum(SUPPORTED_SCHEMA_VERSIONS);
+export type SchemaVersion = z.infer<typeof SchemaVersionZ>;
+
+// Upper bound on genre_ids / platform_ids per run - each id is a persona scope written by the save
+export const MAX_SCOPE_IDS = 8;
+
 export const ServerInputZ = z.object({
-  schema_version: z.string(),
-  player_id: z.string(),
-  session_id: z.string(),
+  schema_version: SchemaVersionZ,
+  player_id: z.string().min(1),
+  session_id: z.string().min(1),
   run_index: z.number().int().positive(),
-  completed_at: z.string(), // ISO
+  completed_at: z.iso.datetime({ offset: true }), // ISO
   game_context: z.object({
     game_id: z.string().optional(),
     game_title: z.string().optional(),
-    genre_ids: z.array(z.string()).optional(),
-    platform_ids: z.array(z.string()).optional(),
+    genre_ids: z.array(z.string()).max(MAX_SCOPE_IDS).optional(),
+    genre_weights: z.record(z.string(), z.number().positive().max(1)).optional(), // per genre_id share of a full run, default 1
+    platform_ids: z.array(z.string()).max(MAX_SCOPE_IDS).optional(),
     build_version: z.string().optional(),
   }).optional(),
   run_outcome: RunOutcomeZ,
@@ -64,6 +109,30 @@ export const ServerInputZ = z.object({
     layout_seed: z.string(),
   }),
   performance_summary: z.unknown().optional(),
+}).superRefine((p, ctx) => {
+  if (p.schema_version === '1.0') {
+    for (const stat of BUILTIN_STATS) {
+      if (p.stats[stat] === undefined) {
+        ctx.addIssue({ code: 'custom', path: ['stats', stat], message: `${stat} is required with schema_version 1.0` });
+      }
+    }
+  }
+  if (p.stats.custom && p.schema_version === '1.0') {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['stats', 'custom'],
+      message: 'Custom metrics require schema_version 1.1',
+    });
+  }
+  for (const genre of Object.keys(p.game_context?.genre_weights ?? {})) {
+    if (!p.game_context?.genre_ids?.includes(genre)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['game_context', 'genre_weights', genre],
+        message: `genre_weights key "${genre}" is not listed in genre_ids`,
+      });
+    }
+  }
 });
 export type ServerInput = z.infer<typeof ServerInputZ>;
 
@@ -75,14 +144,25 @@ export const TraitsZ = z.object({
   independence: z.number(),
   resilience: z.number(),
   goal_focus: z.number(),
-});
+}).catchall(z.number()); // custom traits declared by a game's trait model (see traitRegistry.ts)
 export type Traits = z.infer<typeof TraitsZ>;
 
+// How much evidence stands behind a persona's traits (see blendTraits in traitEngine.ts)
+export const BlendStateZ = z.object({
+  run_count: z.number().int().nonnegative(),              // runs blended into this persona
+  effective_runs: z.number().nonnegative(),               // run_count after time decay
+  consistency: z.record(z.string(), z.number()),          // per trait, 0..1 agreement between runs
+  last_completed_at: z.string().optional(),               // completed_at of the latest blended run
+});
+export type BlendState = z.infer<typeof BlendStateZ>;
+
 export const PersonaSnapshotZ = z.object({
   player_id: z.string(),
   traits: TraitsZ,          // 0..1 normalized
   persona_text: z.string(), // 1–3 sentences
   top_signals: z.array(z.string()),
   updated_at: z.string(),   // ISO
+  confidence: z.record(z.string(), z.number()).optional(), // per trait, 0..1
+  blend_state: BlendStateZ.optional(),
 });
 export type PersonaSnapshot = z.infer<typeof PersonaSnapshotZ>;
@@ -0,0 +1,33 @@
+// src/usage/InMemoryUsageStore.ts
+import { applyLimit, PLAYER_COUNTER_IDLE_MS, usageId } from './UsageStore.ts';
+import type { LimitDecision, RouteLimit, UsageKey, UsageRecord, UsageStore } from './UsageStore.ts';
+
+/**
+ * Process-local counters. Each server process limits on its own, so with N instances a key
+ * gets up to N times its limits; use the mongo store to share them. Lost on restart.
+ */
+export class InMemoryUsageStore implements UsageStore {
+  private records = new Map<string, UsageRecord>();
+  private sweptAt = 0;
+
+  async consume(key: UsageKey, limit: RouteLimit, now = new Date()): Promise<LimitDecision> {
+    this.sweepPlayers(now.getTime());
+    const id = usageId(key);
+    const { decision, next } = applyLimit(this.records.get(id) ?? null, limit, now.getTime());
+    this.records.set(id, { ...key, ...next });
+    return decision;
+  }
+
+  // Per-player counters (session traffic) are dropped once idle for PLAYER_COUNTER_IDLE_MS, checked at most hourly
+  private sweepPlayers(now: number) {
+    if (now - this.sweptAt < 3_600_000) return;
+    this.sweptAt = now;
+    for (const [id, record] of this.records) {
+      if (record.player_id !== undefined && now - record.last_at > PLAYER_COUNTER_IDLE_MS) this.records.delete(id);
+    }
+  }
+
+  async list(filter: { tenant_id?: string } = {}): Promise<UsageRecord[]> {
+    return [...this.records.values()].filter(r => !filter.tenant_id || r.tenant_id === filter.tenant_id);
+  }
+}
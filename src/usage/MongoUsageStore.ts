@@ -0,0 +1,56 @@
+// src/usage/MongoUsageStore.ts
+import { UsageCounterModel } from '../models/UsageCounter.model.ts';
+import { applyLimit, usageId } from './UsageStore.ts';
+import type { LimitDecision, RouteLimit, UsageKey, UsageRecord, UsageState, UsageStore } from './UsageStore.ts';
+
+// Compare-and-set attempts before giving up on a hot counter
+const MAX_ATTEMPTS = 10;
+
+const toRecord = (doc: Omit<UsageKey, 'player_id'> & { player_id?: string | null | undefined } & UsageState): UsageRecord => ({
+  tenant_id: doc.tenant_id,
+  key_id: doc.key_id,
+  route: doc.route,
+  ...(typeof doc.player_id === 'string' && { player_id: doc.player_id }),
+  tokens: doc.tokens,
+  refilled_at: doc.refilled_at,
+  day: doc.day,
+  day_count: doc.day_count,
+  day_rejected: doc.day_rejected,
+  total: doc.total,
+  last_at: doc.last_at,
+});
+
+/** Counters shared by every server process, updated with a version compare-and-set */
+export class MongoUsageStore implements UsageStore {
+  async consume(key: UsageKey, limit: RouteLimit, now = new Date()): Promise<LimitDecision> {
+    const id = usageId(key);
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const doc = await UsageCounterModel.findById(id).lean();
+      const { decision, next } = applyLimit(doc ? toRecord(doc) : null, limit, now.getTime());
+
+      if (!doc) {
+        try {
+          await UsageCounterModel.create({ _id: id, ...key, ...next });
+          return decision;
+        } catch (e: any) {
+          if (e.code === 11000) continue; // another request created it first
+          throw e;
+        }
+      }
+      const res = await UsageCounterModel.updateOne(
+        { _id: id, version: doc.version },
+        { $set: next, $inc: { version: 1 } },
+      );
+      if (res.modifiedCount === 1) return decision;
+    }
+    throw new Error(`Usage counter ${id} is too contended`);
+  }
+
+  async list(filter: { tenant_id?: string } = {}): Promise<UsageRecord[]> {
+    const docs = await UsageCounterModel.find(filter.tenant_id ? { tenant_id: filter.tenant_id } : {})
+      .sort({ tenant_id: 1, key_id: 1, route: 1, player_id: 1 })
+      .lean();
+    return docs.map(toRecord);
+  }
+}
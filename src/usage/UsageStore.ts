@@ -0,0 +1,93 @@
+// src/usage/UsageStore.ts
+
+/** One set of counters: an API key's use of one route (signed session traffic: one player's, under the key) */
+export type UsageKey = { tenant_id: string; key_id: string; route: string; player_id?: string | undefined };
+
+// A player's counters idle this long hold nothing a new request needs: the bucket is full again and the day is over
+export const PLAYER_COUNTER_IDLE_MS = 2 * 86_400_000;
+
+/** Store id of a UsageKey */
+export function usageId(key: UsageKey): string {
+  return [key.tenant_id, key.key_id, key.route, ...(key.player_id !== undefined ? [key.player_id] : [])].join(':');
+}
+
+/** Effective limits for a key and route; 0 turns a limit off */
+export type RouteLimit = {
+  rate_per_minute: number; // token bucket refill rate
+  burst: number;           // bucket size (0: same as rate_per_minute)
+  daily_quota: number;     // requests per UTC day
+};
+
+export type LimitDecision =
+  | { allowed: true; tokens: number; day_count: number }
+  | { allowed: false; reason: 'rate_limited' | 'quota_exceeded'; retry_after_ms: number };
+
+/** Counter state kept per UsageKey */
+export type UsageState = {
+  tokens: number;
+  refilled_at: number; // epoch ms of the last refill
+  day: string;         // UTC date (YYYY-MM-DD) the day_* counters belong to
+  day_count: number;   // requests allowed today
+  day_rejected: number;
+  total: number;       // requests allowed, all time
+  last_at: number;
+};
+
+export type UsageRecord = UsageKey & UsageState;
+
+/**
+ * Where rate-limit buckets and quota counters live.
+ * consume() must decide and record atomically per key, so concurrent requests can't overdraw.
+ */
+export interface UsageStore {
+  /** Count one request against the key's limits, or reject it without counting */
+  consume(key: UsageKey, limit: RouteLimit, now?: Date): Promise<LimitDecision>;
+  /** Current counters, optionally for one tenant */
+  list(filter?: { tenant_id?: string }): Promise<UsageRecord[]>;
+}
+
+const utcDay = (at: number) => new Date(at).toISOString().slice(0, 10);
+
+/**
+ * The decision for one request and the state to store afterwards.
+ * The daily quota is checked first: a request over quota doesn't spend a token.
+ */
+export function applyLimit(prev: UsageState | null, limit: RouteLimit, now: number): { decision: LimitDecision; next: UsageState } {
+  const capacity = limit.burst || limit.rate_per_minute;
+  const perMs = limit.rate_per_minute / 60_000;
+  const day = utcDay(now);
+  const sameDay = prev?.day === day;
+
+  const state: UsageState = {
+    tokens: prev ? Math.min(capacity, prev.tokens + (now - prev.refilled_at) * perMs) : capacity,
+    refilled_at: now,
+    day,
+    day_count: sameDay ? prev!.day_count : 0,
+    day_rejected: sameDay ? prev!.day_rejected : 0,
+    total: prev?.total ?? 0,
+    last_at: prev?.last_at ?? now,
+  };
+
+  if (limit.daily_quota > 0 && state.day_count >= limit.daily_quota) {
+    const midnight = Date.parse(`${day}T00:00:00.000Z`) + 86_400_000;
+    return {
+      decision: { allowed: false, reason: 'quota_exceeded', retry_after_ms: midnight - now },
+      next: { ...state, day_rejected: state.day_rejected + 1 },
+    };
+  }
+  if (limit.rate_per_minute > 0 && state.tokens < 1) {
+    return {
+      decision: { allowed: false, reason: 'rate_limited', retry_after_ms: Math.ceil((1 - state.tokens) / perMs) },
+      next: { ...state, day_rejected: state.day_rejected + 1 },
+    };
+  }
+
+  const next: UsageState = {
+    ...state,
+    tokens: limit.rate_per_minute > 0 ? state.tokens - 1 : capacity,
+    day_count: state.day_count + 1,
+    total: state.total + 1,
+    last_at: now,
+  };
+  return { decision: { allowed: true, tokens: Math.floor(next.tokens), day_count: next.day_count }, next };
+}
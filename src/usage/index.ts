@@ -0,0 +1,15 @@
+// src/usage/index.ts
+import { ENV } from '../config.ts';
+import { logger } from '../logger.ts';
+import type { UsageStore } from './UsageStore.ts';
+import { InMemoryUsageStore } from './InMemoryUsageStore.ts';
+import { MongoUsageStore } from './MongoUsageStore.ts';
+
+/** Build the usage store selected by ENV.USAGE_STORE */
+export function createUsageStore(): UsageStore {
+  logger.info(`Using usage store: ${ENV.USAGE_STORE}`);
+  switch (ENV.USAGE_STORE) {
+    case 'memory': return new InMemoryUsageStore();
+    case 'mongo':  return new MongoUsageStore();
+  }
+}
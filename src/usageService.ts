@@ -0,0 +1,58 @@
+// src/usageService.ts
+import { ENV } from './config.ts';
+import { listTenants } from './tenantService.ts';
+import type { TenantLimits } from './tenantService.ts';
+import type { RouteLimit, UsageRecord, UsageStore } from './usage/UsageStore.ts';
+
+/** Routes with their own rate-limit buckets; tenants override limits by these names */
+export const RATE_LIMITED_ROUTES = [
+  'save', 'save_batch', 'personas', 'personas_resolved', 'history', 'jobs', 'doc', 'knobs', 'sessions',
+  'player_export', 'player_delete',
+] as const;
+export type RateLimitedRoute = typeof RATE_LIMITED_ROUTES[number];
+
+/** Effective limits for a route: ENV defaults, then the tenant's default override, then its route override */
+export function routeLimit(limits: TenantLimits, route: string): RouteLimit {
+  const layers = [limits.default, limits.routes[route]];
+  const pick = (field: keyof RouteLimit, fallback: number) =>
+    layers.reduce((value, layer) => layer?.[field] ?? value, fallback);
+  return {
+    rate_per_minute: pick('rate_per_minute', ENV.RATE_LIMIT_PER_MINUTE),
+    burst: pick('burst', ENV.RATE_LIMIT_BURST),
+    daily_quota: pick('daily_quota', ENV.DAILY_QUOTA),
+  };
+}
+
+/** Counters as reported by GET /admin/usage, with the bucket refilled up to now */
+function usageView(record: UsageRecord, limit: RouteLimit, now: number) {
+  const capacity = limit.burst || limit.rate_per_minute;
+  const tokens = Math.min(capacity, record.tokens + (now - record.refilled_at) * limit.rate_per_minute / 60_000);
+  const today = new Date(now).toISOString().slice(0, 10);
+  const dayCount = record.day === today ? record.day_count : 0;
+  return {
+    tenant_id: record.tenant_id,
+    key_id: record.key_id,
+    route: record.route,
+    player_id: record.player_id ?? null,
+    limit,
+    tokens: Math.floor(tokens),
+    day: today,
+    day_count: dayCount,
+    day_rejected: record.day === today ? record.day_rejected : 0,
+    quota_remaining: limit.daily_quota > 0 ? Math.max(0, limit.daily_quota - dayCount) : null,
+    total: record.total,
+    last_at: new Date(record.last_at).toISOString(),
+  };
+}
+
+/** Usage counters of every key (or one tenant's keys) against their current limits */
+export async function usageReport(store: UsageStore, tenantId?: string) {
+  const [records, tenants] = await Promise.all([
+    store.list(tenantId ? { tenant_id: tenantId } : {}),
+    listTenants(),
+  ]);
+  const limitsById = new Map(tenants.map(t => [t.tenant_id, t.limits]));
+  const now = Date.now();
+  // Legacy ENV.API_KEYS keys (tenant "env") and deleted tenants get the defaults
+  return records.map(r => usageView(r, routeLimit(limitsById.get(r.tenant_id) ?? { routes: {} }, r.route), now));
+}
@@ -0,0 +1,57 @@
+// src/utils/createTenant.ts
+import mongoose from 'mongoose';
+import { parseArgs } from 'node:util';
+import { connectMongo } from '../mongo.ts';
+import { createTenant } from '../tenantService.ts';
+import type { PersonaScope } from '../memory/PersonaStore.ts';
+
+const USAGE = 'Usage: npx tsx src/utils/createTenant.ts --studio <name> --games <id,id|*> [--scopes global,game,genre,platform] [--write] [--no-read]';
+const SCOPES: PersonaScope[] = ['global', 'game', 'genre', 'platform'];
+
+const list = (v: string) => v.split(',').map(s => s.trim()).filter(Boolean);
+
+/**
+ * CLI utility to register a studio as a tenant
+ * Creates the tenant record with its first API key and prints the key once - only its hash is stored.
+ */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const { values } = parseArgs({
+    options: {
+      studio: { type: 'string' },
+      name: { type: 'string' },
+      games: { type: 'string' },
+      scopes: { type: 'string' },
+      write: { type: 'boolean', default: false },
+      'no-read': { type: 'boolean', default: false },
+    },
+  });
+  const scopes = values.scopes ? list(values.scopes) : SCOPES;
+  const badScope = scopes.find(s => !SCOPES.includes(s as PersonaScope));
+  if (!values.studio || !values.games || badScope) {
+    if (badScope) console.error(`Unknown scope: ${badScope}`);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  try {
+    await connectMongo();
+    const { tenant, key } = await createTenant({
+      studio: values.studio,
+      ...(values.name && { name: values.name }),
+      game_ids: list(values.games),
+      scopes: scopes as PersonaScope[],
+      permissions: { read: !values['no-read'], write: values.write },
+    });
+
+    console.log(`\n🏢 Tenant ${tenant.tenant_id} (${tenant.studio})`);
+    console.log(`  games: ${tenant.game_ids.join(', ')}`);
+    console.log(`  scopes: ${tenant.scopes.join(', ')}`);
+    console.log(`  permissions: ${tenant.permissions.read ? 'read' : ''}${tenant.permissions.write ? ' write' : ''}`);
+    console.log(`  key id: ${tenant.keys[0]!.key_id}`);
+    console.log('\n🔑 API Key (shown once - store it now):');
+    console.log(key);
+    console.log('');
+  } finally {
+    await mongoose.disconnect();
+  }
+}
@@ -22,6 +22,7 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   console.log(`API_KEYS=${key}`);
   console.log('\n💡 For multiple keys, comma-separate them:');
   console.log(`API_KEYS=${key},chk_another_key_here`);
+  console.log('\n🏢 Studio keys are managed in MongoDB instead: npm run create:tenant / npm run keys');
   console.log('');
 }
 
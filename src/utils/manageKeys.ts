@@ -0,0 +1,119 @@
+// src/utils/manageKeys.ts
+import mongoose from 'mongoose';
+import { parseArgs } from 'node:util';
+import { connectMongo } from '../mongo.ts';
+import { issueKey, listKeys, revokeKey, rotateKey, setKeyExpiry } from '../apiKeyService.ts';
+import type { KeyInfo } from '../apiKeyService.ts';
+
+const USAGE = `Usage: npx tsx src/utils/manageKeys.ts <command> --tenant <tenant_id> [options]
+  list                                          keys with status and last use
+  issue  [--name <name>] [--expires <ISO>]      issue an additional key
+  rotate --key <key_id> [--grace-hours <n>]     replace a key; the old one works for the grace period
+  revoke --key <key_id>                         reject the key from now on
+  expire --key <key_id> --at <ISO|never>        set or clear the key's expiry`;
+
+const date = (v: Date | null) => v ? v.toISOString() : '-';
+
+function printKey(k: KeyInfo) {
+  console.log(`  ${k.key_id}  ${k.key_prefix}…  ${k.status.padEnd(7)}  ${k.name ?? ''}`);
+  console.log(`    created ${date(k.created_at)}  last used ${date(k.last_used_at)}  expires ${date(k.expires_at)}`
+    + (k.revoked_at ? `  revoked ${date(k.revoked_at)}` : '')
+    + (k.replaced_by ? `  replaced by ${k.replaced_by}` : ''));
+}
+
+function printNewKey(key: string) {
+  console.log('\n🔑 API Key (shown once - store it now):');
+  console.log(key);
+}
+
+function parseDate(v: string): Date {
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) {
+    console.error(`Invalid date: ${v}`);
+    process.exit(1);
+  }
+  return d;
+}
+
+/**
+ * CLI utility to manage tenant API keys
+ * Same operations as the /admin/tenants/:tenant_id/keys routes, straight against MongoDB.
+ */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      tenant: { type: 'string' },
+      key: { type: 'string' },
+      name: { type: 'string' },
+      expires: { type: 'string' },
+      at: { type: 'string' },
+      'grace-hours': { type: 'string' },
+    },
+  });
+  const command = positionals[0];
+  const tenantId = values.tenant;
+  const needsKey = command === 'rotate' || command === 'revoke' || command === 'expire';
+  if (!tenantId || !['list', 'issue', 'rotate', 'revoke', 'expire'].includes(command ?? '')
+    || (needsKey && !values.key) || (command === 'expire' && !values.at)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  const keyId = values.key!;
+  const graceHours = values['grace-hours'] !== undefined ? Number(values['grace-hours']) : undefined;
+  if (graceHours !== undefined && !(graceHours >= 0)) {
+    console.error(`Invalid --grace-hours: ${values['grace-hours']}`);
+    process.exit(1);
+  }
+
+  try {
+    await connectMongo();
+    const notFound = () => {
+      console.error(`❌ ${needsKey ? `No key ${keyId} for tenant ${tenantId}` : `No tenant ${tenantId}`}`);
+      process.exitCode = 1;
+    };
+
+    if (command === 'list') {
+      const keys = await listKeys(tenantId);
+      if (!keys) notFound();
+      else {
+        console.log(`\n🏢 Tenant ${tenantId}: ${keys.length} key(s)`);
+        keys.forEach(printKey);
+      }
+    } else if (command === 'issue') {
+      const issued = await issueKey(tenantId, {
+        ...(values.name && { name: values.name }),
+        ...(values.expires && { expires_at: parseDate(values.expires) }),
+      });
+      if (!issued) notFound();
+      else {
+        printKey(issued.info);
+        printNewKey(issued.key);
+      }
+    } else if (command === 'rotate') {
+      const rotated = await rotateKey(tenantId, keyId, {
+        ...(values.name && { name: values.name }),
+        ...(graceHours !== undefined && { graceHours }),
+      });
+      if (!rotated) notFound();
+      else {
+        console.log(`\n♻️  ${keyId} replaced by ${rotated.info.key_id}; old key works until ${date(rotated.replaced.expires_at)}`);
+        printNewKey(rotated.key);
+      }
+    } else if (command === 'revoke') {
+      const key = await revokeKey(tenantId, keyId);
+      if (!key) notFound();
+      else printKey(key);
+    } else {
+      const key = await setKeyExpiry(tenantId, keyId, values.at === 'never' ? null : parseDate(values.at!));
+      if (!key) notFound();
+      else printKey(key);
+    }
+    console.log('');
+  } catch (e: any) {
+    console.error(`❌ ${e.message}`);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
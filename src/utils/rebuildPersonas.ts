@@ -0,0 +1,55 @@
+// src/utils/rebuildPersonas.ts
+import mongoose from 'mongoose';
+import { parseArgs } from 'node:util';
+import { connectMongo } from '../mongo.ts';
+import { createPersonaStore } from '../memory/index.ts';
+import { rebuildPlayers } from '../rebuildService.ts';
+import type { PlayerRebuild } from '../rebuildService.ts';
+
+const USAGE = 'Usage: npx tsx src/utils/rebuildPersonas.ts (--player <player_id> | --all) [--dry-run]';
+
+function printPlayer(p: PlayerRebuild) {
+  console.log(`\n👤 ${p.player_id}: ${p.runs} run(s), ${p.scopes} scope(s), ${p.diffs.length} changed`);
+  for (const diff of p.diffs) {
+    const { scope, changes, ...ids } = diff;
+    const id = Object.values(ids)[0];
+    console.log(`  ${scope}${id ? ` ${id}` : ''}`);
+    for (const [trait, { from, to }] of Object.entries(changes)) {
+      console.log(`    ${trait}: ${from === null ? '(none)' : from.toFixed(2)} → ${to.toFixed(2)}`);
+    }
+  }
+}
+
+/**
+ * CLI utility to rebuild personas from the run log
+ * Replays each player's saved runs through the current trait models and rewrites every scope.
+ * With --dry-run, prints the per-player trait changes without writing anything.
+ */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const { values } = parseArgs({
+    options: {
+      player: { type: 'string' },
+      all: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  if (!values.player === !values.all) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const dryRun = values['dry-run'];
+  try {
+    await connectMongo();
+    const memory = createPersonaStore();
+    const result = await rebuildPlayers(memory, { ...(values.player && { playerIds: [values.player] }), dryRun });
+
+    result.players.forEach(printPlayer);
+    for (const f of result.failed) console.error(`\n❌ ${f.player_id}: ${f.error}`);
+    console.log(`\n${dryRun ? '🔍 Dry run' : '✅ Rebuilt'}: ${result.players.length} player(s), ${result.failed.length} failed`);
+    if (dryRun) console.log('💡 Run again without --dry-run to write these changes');
+    process.exitCode = result.failed.length > 0 ? 1 : 0;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
@@ -0,0 +1,41 @@
+// test/PlayerReadCache.test.ts
+import './helpers/env.ts';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlayerReadCache } from '../src/memory/PlayerReadCache.ts';
+
+describe('PlayerReadCache', () => {
+  it('drops a read that started before a write', () => {
+    const cache = new PlayerReadCache<string>(60_000);
+    const before = cache.generation('p1');
+    cache.invalidate('p1');
+    cache.set('p1', 'k', 'stale', before);
+    assert.equal(cache.get('p1', 'k'), undefined);
+
+    cache.set('p1', 'k', 'fresh', cache.generation('p1'));
+    assert.equal(cache.get('p1', 'k'), 'fresh');
+  });
+
+  it('only drops reads of the player written', () => {
+    const cache = new PlayerReadCache<string>(60_000);
+    const before = cache.generation('p2');
+    cache.invalidate('p1');
+    cache.set('p2', 'k', 'value', before);
+    assert.equal(cache.get('p2', 'k'), 'value');
+  });
+
+  it('stays bounded when many players are written', () => {
+    const cache = new PlayerReadCache<string>(60_000);
+    for (let i = 0; i < 5000; i++) cache.invalidate(`player_${i}`);
+    assert.ok(cache.size <= 1001, `size ${cache.size}`);
+  });
+
+  it('still drops a read whose player write was swept', () => {
+    const cache = new PlayerReadCache<string>(60_000);
+    const before = cache.generation('p1');
+    cache.invalidate('p1');
+    for (let i = 0; i < 2000; i++) cache.invalidate(`player_${i}`);
+    cache.set('p1', 'k', 'stale', before);
+    assert.equal(cache.get('p1', 'k'), undefined);
+  });
+});
@@ -0,0 +1,52 @@
+// test/SupermemoryStore.test.ts
+import './helpers/env.ts';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ENV } from '../src/config.ts';
+import { SupermemoryStore } from '../src/memory/SupermemoryStore.ts';
+
+ENV.SUPERMEMORY_API_KEY ||= 'test_key';
+
+/** A fake Supermemory document API over `docs`; `late` ids only show up from the second listing round on */
+function fakeApi(docs: Set<string>, options: { late?: string[]; failDelete?: string } = {}) {
+  let listings = 0;
+  const deletes: string[] = [];
+  const fetch = async (url: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const path = new URL(String(url)).pathname;
+    if (path === '/v3/documents/list') {
+      const { page, limit } = JSON.parse(String(init?.body));
+      if (page === 1 && ++listings === 2) for (const id of options.late ?? []) docs.add(id);
+      const ids = [...docs].slice((page - 1) * limit, page * limit);
+      return Response.json({ memories: ids.map(id => ({ id, metadata: {} })), pagination: { totalItems: docs.size } });
+    }
+    const id = decodeURIComponent(path.split('/').pop()!);
+    if (init?.method === 'DELETE') {
+      if (id === options.failDelete) return new Response('boom', { status: 500 });
+      deletes.push(id);
+      docs.delete(id);
+      return new Response(null, { status: 204 });
+    }
+    return new Response('not found', { status: 404 });
+  };
+  return { fetch, deletes };
+}
+
+describe('SupermemoryStore.deletePlayerMemories', () => {
+  it('deletes every page, and documents a lagging listing only shows later', async t => {
+    const docs = new Set(Array.from({ length: 1100 }, (_, i) => `doc_${i}`));
+    const api = fakeApi(docs, { late: ['doc_late'] });
+    t.mock.method(globalThis, 'fetch', api.fetch);
+
+    assert.equal(await new SupermemoryStore().deletePlayerMemories('p1'), 1101);
+    assert.equal(docs.size, 0);
+    assert.equal(new Set(api.deletes).size, api.deletes.length);
+  });
+
+  it('fails instead of reporting a partial deletion', async t => {
+    const docs = new Set(['doc_1', 'doc_2', 'doc_3']);
+    t.mock.method(globalThis, 'fetch', fakeApi(docs, { failDelete: 'doc_2' }).fetch);
+
+    await assert.rejects(new SupermemoryStore().deletePlayerMemories('p1'), /Supermemory delete failed: 500/);
+    assert.ok(docs.has('doc_2'));
+  });
+});
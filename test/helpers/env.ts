@@ -0,0 +1,6 @@
+// test/helpers/env.ts
+// Imported first by every test file, before anything reads src/config.ts
+
+process.env.LOG_LEVEL ??= 'error';
+process.env.PERSONA_STORE ??= 'memory';
+process.env.USAGE_STORE ??= 'memory';
@@ -0,0 +1,25 @@
+// test/helpers/fixtures.ts
+import type { ServerInput } from '../../src/types.ts';
+
+/** A valid ServerInput; runs of one session complete a minute apart by run_index */
+export function runInput(playerId: string, runIndex: number, overrides: Partial<ServerInput> = {}): ServerInput {
+  return {
+    schema_version: '1.0',
+    player_id: playerId,
+    session_id: 'session_1',
+    run_index: runIndex,
+    completed_at: new Date(Date.UTC(2026, 0, 1, 12, runIndex)).toISOString(),
+    game_context: { game_id: 'test_game', genre_ids: ['platformer'], platform_ids: ['pc'] },
+    run_outcome: { result: 'win', path: 'combat' },
+    stats: {
+      time_s: 180, deaths: 1, retries: 0, distance_traveled: 420, jumps: 30, hint_offers: 1, hints_used: 0,
+      riddles_attempted: 2, riddles_correct: 1, combats_initiated: 3, combats_won: 2, collectibles_found: 4,
+    },
+    config_used: {
+      mode: 'fun',
+      knobs: { enemy_count: 5, enemy_speed: 1, puzzle_gate_ratio: 0.5, collectible_density: 0.5, hint_delay_ms: 8000, breadcrumb_brightness: 0.5 },
+      layout_seed: 'seed_1',
+    },
+    ...overrides,
+  };
+}
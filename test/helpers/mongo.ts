@@ -0,0 +1,39 @@
+// test/helpers/mongo.ts
+import { randomUUID } from 'node:crypto';
+import mongoose from 'mongoose';
+
+/**
+ * Connect mongoose to a throwaway database: MONGO_TEST_URI when set, otherwise a
+ * mongodb-memory-server instance (downloads mongod on first use). Resolves to a reason
+ * string instead when no MongoDB can be had, so suites can skip with it.
+ */
+export async function connectTestMongo(): Promise<{ disconnect(): Promise<void> } | string> {
+  let stop = async () => {};
+  let uri = process.env.MONGO_TEST_URI;
+  if (!uri) {
+    try {
+      const { MongoMemoryServer } = await import('mongodb-memory-server');
+      const server = await MongoMemoryServer.create();
+      uri = server.getUri();
+      stop = async () => { await server.stop(); };
+    } catch (e: any) {
+      return `MongoDB unavailable (set MONGO_TEST_URI): ${e.message}`;
+    }
+  }
+
+  await mongoose.connect(uri, { dbName: `test_${randomUUID().slice(0, 8)}`, serverSelectionTimeoutMS: 5000 });
+  // Unique indexes are what idempotency and ownership rely on
+  await mongoose.connection.syncIndexes();
+  return {
+    async disconnect() {
+      await mongoose.connection.dropDatabase();
+      await mongoose.disconnect();
+      await stop();
+    },
+  };
+}
+
+/** Empty every collection between tests */
+export async function clearCollections() {
+  await Promise.all(Object.values(mongoose.connection.collections).map(c => c.deleteMany({})));
+}
@@ -0,0 +1,82 @@
+// test/ingestQueue.test.ts
+import './helpers/env.ts';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { clearCollections, connectTestMongo } from './helpers/mongo.ts';
+import { runInput } from './helpers/fixtures.ts';
+import { ENV } from '../src/config.ts';
+import { IngestJobModel } from '../src/models/IngestJob.model.ts';
+import { DeadLetterModel } from '../src/models/DeadLetter.model.ts';
+import { claimNextJob, enqueueRun, failJob } from '../src/ingestQueue.ts';
+
+const mongo = await connectTestMongo();
+after(async () => { if (typeof mongo !== 'string') await mongo.disconnect(); });
+
+function enqueue(playerId: string, runIndex: number) {
+  return enqueueRun(new mongoose.Types.ObjectId(), runInput(playerId, runIndex));
+}
+
+describe('ingest queue', { skip: typeof mongo === 'string' && mongo }, () => {
+  beforeEach(clearCollections);
+
+  it('returns the existing job when a run is enqueued twice', async () => {
+    const runId = new mongoose.Types.ObjectId();
+    const first = await enqueueRun(runId, runInput('p1', 1));
+    const second = await enqueueRun(runId, runInput('p1', 1));
+    assert.equal(String(second._id), String(first._id));
+    assert.equal(await IngestJobModel.countDocuments(), 1);
+  });
+
+  it("claims a player's runs in order, one at a time", async () => {
+    await enqueue('p1', 2);
+    await enqueue('p1', 1);
+    const first = await claimNextJob('w1');
+    assert.equal(first?.run_index, 1);
+    assert.equal(await claimNextJob('w2'), null);
+  });
+
+  it('claims other players past a long backlog held back by a job on backoff', async () => {
+    const blocked = await enqueue('p1', 0);
+    await IngestJobModel.updateOne({ _id: blocked._id }, { $set: { next_attempt_at: new Date(Date.now() + 60_000) } });
+    for (let i = 1; i <= 120; i++) await enqueue('p1', i);
+    await enqueue('p2', 200);
+
+    const claimed = await claimNextJob('w1');
+    assert.equal(claimed?.player_id, 'p2');
+    assert.equal(await claimNextJob('w1'), null);
+  });
+
+  it('retries with backoff, then dead-letters after INGEST_MAX_ATTEMPTS', async () => {
+    await enqueue('p1', 1);
+    for (let attempt = 1; attempt <= ENV.INGEST_MAX_ATTEMPTS; attempt++) {
+      await IngestJobModel.updateMany({}, { $set: { next_attempt_at: new Date(0) } });
+      const job = await claimNextJob('w1');
+      assert.equal(job?.attempts, attempt);
+      const dead = await failJob(job, `boom ${attempt}`);
+      assert.equal(dead, attempt === ENV.INGEST_MAX_ATTEMPTS);
+      if (!dead) {
+        const queued = await IngestJobModel.findById(job._id).lean();
+        assert.equal(queued?.status, 'queued');
+        assert.ok(queued.next_attempt_at.getTime() > Date.now());
+      }
+    }
+
+    const job = await IngestJobModel.findOne().lean();
+    assert.equal(job?.status, 'dead');
+    assert.equal(job.failures.length, ENV.INGEST_MAX_ATTEMPTS);
+    const letter = await DeadLetterModel.findOne().lean();
+    assert.equal(letter?.last_error, `boom ${ENV.INGEST_MAX_ATTEMPTS}`);
+    assert.equal(letter.run_index, 1);
+  });
+
+  it('revives a dead-lettered job when its run is enqueued again', async () => {
+    const runId = new mongoose.Types.ObjectId();
+    const job = await enqueueRun(runId, runInput('p1', 1));
+    await IngestJobModel.updateOne({ _id: job._id }, { $set: { status: 'dead', attempts: ENV.INGEST_MAX_ATTEMPTS } });
+    const revived = await enqueueRun(runId, runInput('p1', 1));
+    assert.equal(revived.status, 'queued');
+    assert.equal(revived.attempts, 0);
+    assert.equal((await claimNextJob('w1'))?.run_index, 1);
+  });
+});
@@ -0,0 +1,70 @@
+// test/ingestService.test.ts
+import './helpers/env.ts';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearCollections, connectTestMongo } from './helpers/mongo.ts';
+import { runInput } from './helpers/fixtures.ts';
+import { InMemoryPersonaStore } from '../src/memory/InMemoryPersonaStore.ts';
+import { PersonaHistoryModel } from '../src/models/PersonaHistory.model.ts';
+import { applyRun } from '../src/ingestService.ts';
+import { claimRun, markRunSaved } from '../src/runLog.ts';
+import type { ServerInput } from '../src/types.ts';
+
+const mongo = await connectTestMongo();
+after(async () => { if (typeof mongo !== 'string') await mongo.disconnect(); });
+
+// Runs that differ enough for their order to change the blended traits
+function run(playerId: string, runIndex: number): ServerInput {
+  const base = runInput(playerId, runIndex);
+  return runIndex === 2
+    ? { ...base, run_outcome: { result: 'loss', path: 'puzzle' }, stats: { ...base.stats, deaths: 6, hints_used: 3, riddles_correct: 2 } }
+    : base;
+}
+
+async function save(memory: InMemoryPersonaStore, p: ServerInput) {
+  const claim = await claimRun(p);
+  assert.equal(claim.kind, 'new');
+  const { body } = await applyRun(memory, p);
+  await markRunSaved(claim.run._id, body);
+  return body;
+}
+
+async function globalTraits(memory: InMemoryPersonaStore, playerId: string) {
+  return (await memory.fetchLatestPersona(playerId, { scope: 'global' }))?.persona?.traits;
+}
+
+describe('applyRun replay', { skip: typeof mongo === 'string' && mongo }, () => {
+  beforeEach(clearCollections);
+
+  it('rebuilds a run that arrives after a later one as if the runs had arrived in order', async () => {
+    const memory = new InMemoryPersonaStore();
+    for (const i of [1, 2, 3]) await save(memory, run('in_order', i));
+    for (const i of [1, 3]) await save(memory, run('late', i));
+    const body = await save(memory, run('late', 2));
+
+    assert.equal(body.replayed_runs, 3);
+    assert.deepEqual(await globalTraits(memory, 'late'), await globalTraits(memory, 'in_order'));
+  });
+
+  it('blends a run in order without replaying', async () => {
+    const memory = new InMemoryPersonaStore();
+    await save(memory, run('p1', 1));
+    const body = await save(memory, run('p1', 2));
+    assert.equal(body.replayed_runs, undefined);
+  });
+
+  it('rewrites the history from the late run on', async () => {
+    const memory = new InMemoryPersonaStore();
+    for (const i of [1, 2, 3]) await save(memory, run('in_order', i));
+    for (const i of [1, 3]) await save(memory, run('late', i));
+    await save(memory, run('late', 2));
+
+    const points = (playerId: string) => PersonaHistoryModel
+      .find({ player_id: playerId, persona_scope: 'global' }, { _id: 0, run_index: 1, traits: 1 })
+      .sort({ run_index: 1 })
+      .lean();
+    const late = await points('late');
+    assert.deepEqual(late.map(p => p.run_index), [1, 2, 3]);
+    assert.deepEqual(late, await points('in_order'));
+  });
+});
@@ -0,0 +1,91 @@
+// test/playerDataService.test.ts
+import './helpers/env.ts';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearCollections, connectTestMongo } from './helpers/mongo.ts';
+import { runInput } from './helpers/fixtures.ts';
+import { InMemoryPersonaStore } from '../src/memory/InMemoryPersonaStore.ts';
+import { PlayerDeletionModel } from '../src/models/PlayerDeletion.model.ts';
+import { PlayerLockModel } from '../src/models/PlayerLock.model.ts';
+import { PersonaHistoryModel } from '../src/models/PersonaHistory.model.ts';
+import { RunModel } from '../src/models/Run.model.ts';
+import { applyRun, RunWithdrawnError } from '../src/ingestService.ts';
+import { acquirePlayerLock } from '../src/playerLock.ts';
+import { deletePlayer, exportPlayer } from '../src/playerDataService.ts';
+import { claimRun, markRunSaved } from '../src/runLog.ts';
+import { createTenant, findTenantByKey, playerOwnership, provisionPlayers } from '../src/tenantService.ts';
+import type { TenantContext } from '../src/tenantService.ts';
+import type { ServerInput } from '../src/types.ts';
+
+const mongo = await connectTestMongo();
+after(async () => { if (typeof mongo !== 'string') await mongo.disconnect(); });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function tenant(gameIds: string[]): Promise<TenantContext> {
+  const { key } = await createTenant({ studio: 'studio_a', game_ids: gameIds });
+  const found = await findTenantByKey(key);
+  assert.ok(found && 'tenant' in found);
+  return found.tenant;
+}
+
+async function save(memory: InMemoryPersonaStore, p: ServerInput) {
+  const { run } = await claimRun(p);
+  const { body } = await applyRun(memory, p);
+  await markRunSaved(run._id, body);
+}
+
+const otherGame = (p: ServerInput): ServerInput => ({ ...p, game_context: { ...p.game_context, game_id: 'other_game' } });
+
+describe('player export and erasure', { skip: typeof mongo === 'string' && mongo }, () => {
+  beforeEach(clearCollections);
+
+  it("exports only the runs and personas of the key's games", async () => {
+    const memory = new InMemoryPersonaStore();
+    await save(memory, runInput('p1', 1));
+    await save(memory, otherGame(runInput('p1', 2)));
+
+    const exported = await exportPlayer(memory, await tenant(['test_game']), 'p1');
+    assert.deepEqual(exported.runs.map(r => r.run_index), [1]);
+    assert.ok(!exported.personas.some(p => JSON.stringify(p).includes('other_game')));
+    assert.equal((await exportPlayer(memory, await tenant(['*']), 'p1')).runs.length, 2);
+  });
+
+  it('erases runs, history, memories and ownership, and completes the audit record', async () => {
+    const memory = new InMemoryPersonaStore();
+    const studio = await tenant(['test_game']);
+    await provisionPlayers(studio.id, ['p1']);
+    await save(memory, runInput('p1', 1));
+    await save(memory, runInput('p2', 1));
+
+    const result = await deletePlayer(memory, 'p1', studio, 'test');
+    assert.equal(result.deleted.runs, 1);
+    assert.ok(result.deleted.memories > 0);
+    assert.equal(await RunModel.countDocuments({ player_id: 'p1' }), 0);
+    assert.equal(await PersonaHistoryModel.countDocuments({ player_id: 'p1' }), 0);
+    assert.equal(await memory.fetchLatestPersona('p1', { scope: 'global' }), null);
+    assert.equal(await playerOwnership(studio, 'p1'), 'unprovisioned');
+    assert.equal((await PlayerDeletionModel.findById(result.deletion_id).lean())?.status, 'completed');
+
+    assert.equal(await RunModel.countDocuments({ player_id: 'p2' }), 1);
+  });
+
+  it('rejects a save that was claimed before the erasure and waited for the lock', async () => {
+    const memory = new InMemoryPersonaStore();
+    const studio = await tenant(['test_game']);
+    await provisionPlayers(studio.id, ['p1']);
+    // Completed after the erasure request, so it is admitted to the lock after it
+    const late = runInput('p1', 1, { completed_at: '2099-01-01T00:00:00.000Z' });
+    await claimRun(late);
+
+    const held = await acquirePlayerLock(runInput('p1', 0));
+    const erasure = deletePlayer(memory, 'p1', studio);
+    const saving = applyRun(memory, late, { tenant: studio });
+    while (((await PlayerLockModel.findById('p1').lean())?.waiters.length ?? 0) < 2) await sleep(20);
+    await held.release();
+
+    await erasure;
+    await assert.rejects(saving, (e: unknown) => e instanceof RunWithdrawnError && e.code === 'player_erased');
+    assert.equal(await memory.fetchLatestPersona('p1', { scope: 'global' }), null);
+  });
+});
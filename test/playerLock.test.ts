@@ -0,0 +1,72 @@
+// test/playerLock.test.ts
+import './helpers/env.ts';
+import { after, afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearCollections, connectTestMongo } from './helpers/mongo.ts';
+import { runInput } from './helpers/fixtures.ts';
+import { ENV } from '../src/config.ts';
+import { PlayerLockModel } from '../src/models/PlayerLock.model.ts';
+import { acquirePlayerLock, PlayerLockTimeoutError, withPlayerLock } from '../src/playerLock.ts';
+
+const mongo = await connectTestMongo();
+after(async () => { if (typeof mongo !== 'string') await mongo.disconnect(); });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function waitForWaiters(playerId: string, count: number) {
+  while (((await PlayerLockModel.findById(playerId).lean())?.waiters.length ?? 0) < count) await sleep(20);
+}
+
+describe('player lock', { skip: typeof mongo === 'string' && mongo }, () => {
+  const { PLAYER_LOCK_TTL_MS, PLAYER_LOCK_WAIT_MS } = ENV;
+  beforeEach(clearCollections);
+  afterEach(() => Object.assign(ENV, { PLAYER_LOCK_TTL_MS, PLAYER_LOCK_WAIT_MS }));
+
+  it('admits waiting saves oldest run first, whatever order they arrived in', async () => {
+    const held = await acquirePlayerLock(runInput('p1', 1));
+    const order: number[] = [];
+    const waiting = [4, 2, 3].map(i => withPlayerLock(runInput('p1', i), async () => { order.push(i); }));
+    await waitForWaiters('p1', 3);
+    await held.release();
+    await Promise.all(waiting);
+    assert.deepEqual(order, [2, 3, 4]);
+  });
+
+  it('never lets two saves of one player hold the lock together', async () => {
+    let inside = 0;
+    let most = 0;
+    await Promise.all([1, 2, 3, 4, 5].map(i => withPlayerLock(runInput('p1', i), async () => {
+      most = Math.max(most, ++inside);
+      await sleep(30);
+      inside--;
+    })));
+    assert.equal(most, 1);
+  });
+
+  it("does not wait on other players' locks", async () => {
+    const held = await acquirePlayerLock(runInput('p1', 1));
+    const other = await acquirePlayerLock(runInput('p2', 1));
+    await other.release();
+    await held.release();
+  });
+
+  it('takes over an expired lease and reports the handoff', async () => {
+    await PlayerLockModel.create({ _id: 'p1', holder: 'crashed', expires_at: new Date(Date.now() - 1000) });
+    const lock = await acquirePlayerLock(runInput('p1', 1));
+    assert.equal(lock.handoff, true);
+    await lock.release();
+
+    const again = await acquirePlayerLock(runInput('p1', 2));
+    assert.equal(again.handoff, false);
+    await again.release();
+  });
+
+  it('times out behind a live lease and leaves the waiter list', async () => {
+    Object.assign(ENV, { PLAYER_LOCK_TTL_MS: 200, PLAYER_LOCK_WAIT_MS: 0 });
+    await PlayerLockModel.create({ _id: 'p1', holder: 'other', expires_at: new Date(Date.now() + 60_000) });
+    await assert.rejects(acquirePlayerLock(runInput('p1', 1)), PlayerLockTimeoutError);
+    const lock = await PlayerLockModel.findById('p1').lean();
+    assert.equal(lock?.holder, 'other');
+    assert.deepEqual(lock.waiters, []);
+  });
+});
@@ -0,0 +1,79 @@
+// test/runLog.test.ts
+import './helpers/env.ts';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clearCollections, connectTestMongo } from './helpers/mongo.ts';
+import { runInput } from './helpers/fixtures.ts';
+import { RunModel } from '../src/models/Run.model.ts';
+import { claimRun, markRunApplying, markRunFailed, markRunSaved, scopedIdempotencyKey } from '../src/runLog.ts';
+
+const mongo = await connectTestMongo();
+after(async () => { if (typeof mongo !== 'string') await mongo.disconnect(); });
+
+describe('claimRun', { skip: typeof mongo === 'string' && mongo }, () => {
+  beforeEach(clearCollections);
+
+  it('claims a new run once and reports the second attempt as in progress', async () => {
+    const first = await claimRun(runInput('p1', 1));
+    assert.equal(first.kind, 'new');
+    const second = await claimRun(runInput('p1', 1));
+    assert.equal(second.kind, 'in_progress');
+    assert.equal(String(second.run._id), String(first.run._id));
+    assert.equal(await RunModel.countDocuments(), 1);
+  });
+
+  it('replays the stored response of a saved run', async () => {
+    const { run } = await claimRun(runInput('p1', 1));
+    await markRunSaved(run._id, { user_node: 'p1', memories_created: 3 });
+    const again = await claimRun(runInput('p1', 1));
+    assert.equal(again.kind, 'replay');
+    assert.deepEqual(again.run.save_result, { user_node: 'p1', memories_created: 3 });
+  });
+
+  it('lets exactly one of two concurrent retries take over a failed run', async () => {
+    const { run } = await claimRun(runInput('p1', 1));
+    await markRunFailed(run._id);
+    const kinds = (await Promise.all([claimRun(runInput('p1', 1)), claimRun(runInput('p1', 1))])).map(c => c.kind).sort();
+    assert.deepEqual(kinds, ['in_progress', 'retry']);
+  });
+
+  it('retakes a processing run whose claim went stale', async () => {
+    const { run } = await claimRun(runInput('p1', 1));
+    await RunModel.updateOne({ _id: run._id }, { $set: { ingest_started_at: new Date(Date.now() - 10 * 60_000) } });
+    assert.equal((await claimRun(runInput('p1', 1))).kind, 'retry');
+  });
+
+  it('rejects an Idempotency-Key reused for another run', async () => {
+    await claimRun(runInput('p1', 1), 'key_1');
+    const conflict = await claimRun(runInput('p1', 2), 'key_1');
+    assert.equal(conflict.kind, 'key_conflict');
+    assert.equal(conflict.run.run_index, 1);
+    assert.equal((await claimRun(runInput('p1', 1), 'key_1')).kind, 'in_progress');
+  });
+
+  it('keeps Idempotency-Keys of different tenants apart', async () => {
+    const a = scopedIdempotencyKey({ id: 'tenant_a', legacy: false }, 'key_1');
+    const b = scopedIdempotencyKey({ id: 'tenant_b', legacy: false }, 'key_1');
+    assert.equal((await claimRun(runInput('p1', 1), a)).kind, 'new');
+    assert.equal((await claimRun(runInput('p2', 1), b)).kind, 'new');
+    assert.equal(scopedIdempotencyKey({ id: 'env', legacy: true }, 'key_1'), 'key_1');
+  });
+});
+
+describe('markRunApplying', { skip: typeof mongo === 'string' && mongo }, () => {
+  beforeEach(clearCollections);
+
+  it('tells a retry that an earlier attempt may have blended the run', async () => {
+    const { run } = await claimRun(runInput('p1', 1));
+    assert.equal(await markRunApplying(run._id), false);
+    await markRunFailed(run._id);
+    assert.equal(await markRunApplying(run._id), true);
+  });
+
+  it('forgets the attempt when it certainly wrote nothing', async () => {
+    const { run } = await claimRun(runInput('p1', 1));
+    await markRunApplying(run._id);
+    await markRunFailed(run._id, { written: false });
+    assert.equal(await markRunApplying(run._id), false);
+  });
+});
@@ -0,0 +1,78 @@
+// test/tenantService.test.ts
+import './helpers/env.ts';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { clearCollections, connectTestMongo } from './helpers/mongo.ts';
+import { runInput } from './helpers/fixtures.ts';
+import {
+  authorizeRunWrite, createTenant, findTenantByKey, legacyTenant, playerOwnership, provisionPlayers, releasePlayer,
+} from '../src/tenantService.ts';
+import type { TenantContext } from '../src/tenantService.ts';
+
+const mongo = await connectTestMongo();
+after(async () => { if (typeof mongo !== 'string') await mongo.disconnect(); });
+
+async function tenant(studio: string): Promise<TenantContext> {
+  const { key } = await createTenant({ studio, game_ids: ['test_game'] });
+  const found = await findTenantByKey(key);
+  assert.ok(found && 'tenant' in found);
+  return found.tenant;
+}
+
+describe('player provisioning', { skip: typeof mongo === 'string' && mongo }, () => {
+  beforeEach(clearCollections);
+
+  it('reports provisioned, already owned and conflicting players', async () => {
+    const a = await tenant('studio_a');
+    const b = await tenant('studio_b');
+    await provisionPlayers(b.id, ['p3']);
+
+    assert.deepEqual(await provisionPlayers(a.id, ['p1', 'p2', 'p1']), { provisioned: ['p1', 'p2'], already_owned: [], conflicts: [] });
+    assert.deepEqual(await provisionPlayers(a.id, ['p2', 'p3']), { provisioned: [], already_owned: ['p2'], conflicts: ['p3'] });
+    assert.equal(await playerOwnership(b, 'p3'), 'owned');
+  });
+
+  it('returns null for unknown tenants', async () => {
+    assert.equal(await provisionPlayers('not-an-id', ['p1']), null);
+    assert.equal(await provisionPlayers(String(new mongoose.Types.ObjectId()), ['p1']), null);
+  });
+
+  it("releases only the tenant's own players", async () => {
+    const a = await tenant('studio_a');
+    const b = await tenant('studio_b');
+    await provisionPlayers(a.id, ['p1']);
+
+    assert.equal(await releasePlayer(b.id, 'p1'), false);
+    assert.equal(await playerOwnership(a, 'p1'), 'owned');
+    assert.equal(await releasePlayer(a.id, 'p1'), true);
+    assert.equal(await playerOwnership(a, 'p1'), 'unprovisioned');
+    assert.deepEqual((await provisionPlayers(b.id, ['p1']))?.provisioned, ['p1']);
+  });
+
+  it('denies writes for unprovisioned and foreign players and other games', async () => {
+    const a = await tenant('studio_a');
+    const b = await tenant('studio_b');
+    await provisionPlayers(a.id, ['p1']);
+
+    assert.equal(await authorizeRunWrite(a, runInput('p1', 1)), null);
+    assert.equal((await authorizeRunWrite(a, runInput('p2', 1)))?.error, 'player_not_provisioned');
+    assert.equal((await authorizeRunWrite(b, runInput('p1', 1)))?.error, 'player_not_owned');
+    const otherGame = runInput('p1', 1, { game_context: { game_id: 'other_game', genre_ids: [], platform_ids: [] } });
+    assert.equal((await authorizeRunWrite(a, otherGame))?.error, 'game_not_allowed');
+  });
+
+  it('limits a session to its own player', async () => {
+    const a = await tenant('studio_a');
+    await provisionPlayers(a.id, ['p1', 'p2']);
+    const session = { ...a, session_player: 'p1' };
+
+    assert.equal(await authorizeRunWrite(session, runInput('p1', 1)), null);
+    assert.equal((await authorizeRunWrite(session, runInput('p2', 1)))?.error, 'player_not_owned');
+    assert.equal(await playerOwnership(session, 'p2'), 'foreign');
+  });
+
+  it('lets legacy keys write any player without provisioning', async () => {
+    assert.equal(await authorizeRunWrite(legacyTenant('legacy_key_1234'), runInput('p1', 1)), null);
+  });
+});
@@ -0,0 +1,100 @@
+// test/traitEngine.test.ts
+import './helpers/env.ts';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runInput } from './helpers/fixtures.ts';
+import { blendTraits, DEFAULT_TRAITS, observeTraits, personaText, topSignals } from '../src/traitEngine.ts';
+import { DEFAULT_TRAIT_MODEL, TraitModelZ } from '../src/traitModel.ts';
+import { ServerInputZ } from '../src/types.ts';
+
+const { version: _, game_id: __, ...defaultModel } = DEFAULT_TRAIT_MODEL;
+const racingModel = TraitModelZ.parse({
+  ...defaultModel,
+  version: 'racing-1',
+  game_id: 'racer',
+  metrics: { 'racing.overtakes': { type: 'integer', min: 0 } },
+  traits: {
+    ...defaultModel.traits,
+    risk_taking: {
+      label: 'Risk Taking',
+      terms: [{ kind: 'stat', stat: 'racing.overtakes', weight: 1, scale: 5, reason: 'overtook {value} car(s)' }],
+      explain: { idle: 'No overtakes.' },
+    },
+  },
+});
+
+describe('personaText', () => {
+  it('describes custom traits of the model once they pass 0.6', () => {
+    assert.equal(
+      personaText({ ...DEFAULT_TRAITS, risk_taking: 0.8 }, racingModel),
+      'Shows high risk taking; goal focus 50%.',
+    );
+    assert.equal(personaText({ ...DEFAULT_TRAITS, risk_taking: 0.4 }, racingModel), 'Shows balanced playstyle; goal focus 50%.');
+  });
+
+  it('uses stored labels for custom traits when no model declares them', () => {
+    assert.equal(
+      personaText({ ...DEFAULT_TRAITS, completionism: 0.9 }, undefined, { completionism: 'Completionist Drive' }),
+      'Shows high completionist drive; goal focus 50%.',
+    );
+  });
+
+  it('keeps the built-in phrases first', () => {
+    assert.equal(
+      personaText({ ...DEFAULT_TRAITS, curiosity: 0.9, risk_taking: 0.9 }, racingModel),
+      'Shows exploration-oriented, high risk taking; goal focus 50%.',
+    );
+  });
+});
+
+describe('topSignals', () => {
+  it('adds the reasons of contributing custom trait terms', () => {
+    const run = runInput('p1', 1);
+    run.stats = {
+      ...run.stats, riddles_correct: 0, combats_initiated: 0, combats_won: 0, collectibles_found: 0,
+      custom: { 'racing.overtakes': 4 },
+    };
+    assert.deepEqual(topSignals(run, racingModel), ['Overtook 4 car(s)']);
+    assert.deepEqual(topSignals(run), []);
+  });
+
+  it('keeps at most three signals, built-ins first', () => {
+    const run = runInput('p1', 1);
+    run.stats = { ...run.stats, custom: { 'racing.overtakes': 4 } };
+    assert.deepEqual(topSignals(run, racingModel), ['Solved 1 riddle(s)', 'Started 3 combat(s), won 2', 'Found 4 collectible(s)']);
+  });
+});
+
+describe('runs without built-in counters (schema 1.1)', () => {
+  const racingRun = () => ({
+    ...runInput('p1', 1, { schema_version: '1.1' }),
+    stats: { time_s: 95, custom: { 'racing.overtakes': 5 } },
+  });
+
+  it('validates with only the counters the game tracks', () => {
+    assert.equal(ServerInputZ.safeParse(racingRun()).success, true);
+    const legacy = ServerInputZ.safeParse({ ...racingRun(), schema_version: '1.0', stats: { time_s: 95 } });
+    assert.equal(legacy.success, false);
+    assert.ok(legacy.error!.issues.some(i => i.path.join('.') === 'stats.deaths'));
+  });
+
+  it('rejects a part without its whole', () => {
+    const run = { ...racingRun(), stats: { combats_won: 1 } };
+    assert.equal(ServerInputZ.safeParse(run).success, false);
+  });
+
+  it('skips terms whose stat is missing and leaves traits without inputs alone', () => {
+    const observed = observeTraits(racingRun(), racingModel);
+    assert.equal(observed.risk_taking, 1);
+    assert.equal(observed.independence, undefined); // only reads hints_used
+    assert.equal(observed.stealth, undefined);      // only reads combats_initiated and deaths
+    assert.ok(observed.goal_focus !== undefined);   // time_s was sent
+
+    const prev = { ...DEFAULT_TRAITS, independence: 0.3, stealth: 0.2, risk_taking: 0.5 };
+    const { traits, confidence } = blendTraits(racingRun(), { traits: prev }, racingModel, racingRun().completed_at);
+    assert.equal(traits.independence, 0.3);
+    assert.equal(traits.stealth, 0.2);
+    assert.ok(traits.risk_taking! > 0.5);
+    assert.equal(confidence.stealth, 0);
+  });
+});
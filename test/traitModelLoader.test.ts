@@ -0,0 +1,55 @@
+// test/traitModelLoader.test.ts
+import './helpers/env.ts';
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { clearCollections, connectTestMongo } from './helpers/mongo.ts';
+import { ENV } from '../src/config.ts';
+import { TraitModelModel } from '../src/models/TraitModel.model.ts';
+import { DEFAULT_TRAIT_MODEL } from '../src/traitModel.ts';
+import { loadTraitModel, TraitModelUnavailableError } from '../src/traitModelLoader.ts';
+
+const mongo = await connectTestMongo();
+const dir = await mkdtemp(join(tmpdir(), 'trait-models-'));
+ENV.TRAIT_MODEL_DIR = dir;
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+  if (typeof mongo !== 'string') await mongo.disconnect();
+});
+
+const { version: _, game_id: __, ...defaultModel } = DEFAULT_TRAIT_MODEL;
+const invalidModel = { ...defaultModel, blend: { prior_runs: -1 } };
+
+describe('loadTraitModel', { skip: typeof mongo === 'string' && mongo }, () => {
+  beforeEach(clearCollections);
+
+  it('fails on an invalid MongoDB model instead of serving the default', async () => {
+    await TraitModelModel.create({ game_id: 'invalid_mongo', version: 'v1', model: invalidModel });
+    await assert.rejects(loadTraitModel('invalid_mongo'), TraitModelUnavailableError);
+    // Nothing was cached: the next request fails too
+    await assert.rejects(loadTraitModel('invalid_mongo'), TraitModelUnavailableError);
+  });
+
+  it('fails on an invalid model file', async () => {
+    await writeFile(join(dir, 'invalid_file.json'), JSON.stringify({ version: 'v1', ...invalidModel }));
+    await assert.rejects(loadTraitModel('invalid_file'), TraitModelUnavailableError);
+  });
+
+  it('keeps serving the last good model when the config turns invalid', async (t) => {
+    const good = await TraitModelModel.create({ game_id: 'turns_invalid', version: 'v1', model: defaultModel });
+    assert.equal((await loadTraitModel('turns_invalid')).version, 'v1');
+
+    await TraitModelModel.updateOne({ _id: good._id }, { $set: { model: invalidModel } });
+    const now = Date.now();
+    t.mock.method(Date, 'now', () => now + 2 * 60_000); // past the cache lifetime
+    const model = await loadTraitModel('turns_invalid');
+    assert.equal(model.version, 'v1');
+    assert.equal(model.game_id, 'turns_invalid');
+  });
+
+  it('uses the default for games without any config', async () => {
+    assert.equal(await loadTraitModel('unconfigured_game'), DEFAULT_TRAIT_MODEL);
+  });
+});